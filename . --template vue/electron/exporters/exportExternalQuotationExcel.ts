@@ -2,6 +2,20 @@ import ExcelJS from 'exceljs'
 import path from 'node:path'
 import { access } from 'node:fs/promises'
 import { constants as fsConstants } from 'node:fs'
+import { currencySymbol } from '../../src/utils/currency'
+
+type Incoterm = 'EXW' | 'FOB' | 'CFR' | 'CIF'
+
+export interface QuoteWarningPayload {
+  code: string
+  severity: 'info' | 'warn' | 'critical'
+  params: Record<string, string | number>
+}
+
+export interface ExternalQuotationLine {
+  quoteResult: ExternalQuotationPayload['quoteResult']
+  input: ExternalQuotationPayload['input']
+}
 
 export interface ExternalQuotationPayload {
   quoteResult: {
@@ -11,9 +25,18 @@ export interface ExternalQuotationPayload {
       tons: number
       mode: 'FCL' | 'LCL'
       container_type: '20GP' | '40HQ' | '40FT'
+      container_count?: number
+      incoterm?: Incoterm
+      usd_decimals?: number
+      price_step?: number | null
+      amount_usd?: number
+      sell_currency?: string
+      sell_price_per_bag?: number
+      sell_currency_decimals?: number
+      amount?: number
     }
     breakdown: Record<string, number>
-    warnings: string[]
+    warnings: QuoteWarningPayload[]
   }
   input: {
     productName: string
@@ -25,8 +48,11 @@ export interface ExternalQuotationPayload {
     packagingText?: string
     quantityBagsInt?: number
     containerType?: '20GP' | '40HQ' | '40FT'
+    containerCount?: number
     polPortName?: string
     polPortNameEn?: string
+    incoterm?: Incoterm
+    destinationPortName?: string
     mode?: 'FCL' | 'LCL'
     tons?: number
     unitWeightKg?: number
@@ -51,8 +77,22 @@ export interface ExternalQuotationPayload {
     appVersion?: string
     exportedAtISO?: string
   }
+  lines?: ExternalQuotationLine[]
+  // Alternative shipping offers, listed below the quoted items and left out of the total.
+  alternatives?: ExternalQuotationLine[]
+  // Quantity price breaks of the same item, rendered as a tiered table in place of the item row.
+  priceBreaks?: ExternalQuotationLine[]
+  totals?: {
+    mode?: 'FCL' | 'LCL'
+    tons?: number
+    container_type: '20GP' | '40HQ' | '40FT'
+    container_count: number
+    bags_int: number
+  }
 }
 
+const ITEM_FIRST_ROW = 9
+
 const DEFAULT_EXPORT_EMAIL = 'ivvepet@phoebetai.com'
 
 function formatDateDDMMYYYY(date: Date): string {
@@ -72,6 +112,10 @@ function formatKg(n: number): string {
   return String(rounded)
 }
 
+function formatTons(n: number): string {
+  return String(Number(n.toFixed(3)))
+}
+
 function isNonEmptyText(value: unknown): value is string {
   return typeof value === 'string' && value.trim() !== ''
 }
@@ -98,6 +142,18 @@ function resolvePortNameEnglish(input: ExternalQuotationPayload['input']): strin
   return raw
 }
 
+function resolveIncoterm(line: ExternalQuotationLine): Incoterm {
+  return line.input?.incoterm ?? line.quoteResult?.summary?.incoterm ?? 'FOB'
+}
+
+// FOB/EXW name the loading port; CFR/CIF name the destination port.
+function resolveDeliveryPortEnglish(input: ExternalQuotationPayload['input'], incoterm: Incoterm): string {
+  if ((incoterm === 'CFR' || incoterm === 'CIF') && isNonEmptyText(input.destinationPortName)) {
+    return input.destinationPortName.trim()
+  }
+  return resolvePortNameEnglish(input)
+}
+
 function buildPackagingEnglish(input: ExternalQuotationPayload['input']): string {
   const unitWeightKg = asNumber(input.unitWeightKg, 0)
   const unitsPerCarton = asNumber(input.unitsPerCarton, 0)
@@ -107,13 +163,69 @@ function buildPackagingEnglish(input: ExternalQuotationPayload['input']): string
   return `${formatKg(unitWeightKg)}kg per bag\n${unitsPerCarton} bags per carton\nCarton packing`
 }
 
-function buildQuantityBlock(containerType: '20GP' | '40HQ' | '40FT', bagsInt: number): string {
-  return `1 x ${containerType}\n${bagsInt.toLocaleString()} Bags`
+function buildCurrencyNumFmt(currency: string, decimals: number): string {
+  const symbol = currencySymbol(currency)
+  // Only "$" is a literal in Excel number formats; other symbols must be quoted.
+  const prefix = symbol === '$' ? '$' : `"${symbol}"`
+  const pattern = decimals > 0 ? `${prefix}#,##0.${'0'.repeat(decimals)}` : `${prefix}#,##0`
+  return `${pattern};-${pattern}`
+}
+
+function resolveStepDecimals(step: number | null | undefined): number {
+  if (typeof step !== 'number' || !Number.isFinite(step) || step <= 0) return 0
+  return (String(step).split('.')[1] ?? '').length
+}
+
+// Price and amount are written exactly as the engine rounded them (including step rounding
+// finer than the currency decimals); only the display format widens to fit.
+function resolveLinePrice(line: ExternalQuotationLine): {
+  currency: string
+  price: number
+  amount: number
+  decimals: number
+} {
+  const summary = line.quoteResult?.summary
+  const bagsInt = asNumber(summary?.bags_int, 0)
+  const stepDecimals = resolveStepDecimals(summary?.price_step)
+  const currency = summary?.sell_currency?.trim().toUpperCase() || 'USD'
+  if (currency !== 'USD' && summary?.sell_price_per_bag !== undefined) {
+    const price = asNumber(summary.sell_price_per_bag, 0)
+    return {
+      currency,
+      price,
+      amount: asNumber(summary.amount, price * bagsInt),
+      decimals: Math.max(0, Math.round(asNumber(summary.sell_currency_decimals, 2)), stepDecimals),
+    }
+  }
+  const price = asNumber(summary?.sell_usd_per_bag, 0)
+  return {
+    currency: 'USD',
+    price,
+    amount: asNumber(summary?.amount_usd, price * bagsInt),
+    decimals: Math.max(0, Math.round(asNumber(summary?.usd_decimals, 2)), stepDecimals),
+  }
+}
+
+function buildQuantityBlock(containerType: '20GP' | '40HQ' | '40FT', bagsInt: number, containerCount = 1): string {
+  return `${containerCount} x ${containerType}\n${bagsInt.toLocaleString()} Bags`
 }
 
-function buildRemarksEnglish(settings: ExternalQuotationPayload['settings'], portName: string): string {
+function buildLineQuantityText(bagsInt: number): string {
+  return `${bagsInt.toLocaleString()} Bags`
+}
+
+function buildLclQuantityBlock(tons: number, bagsInt: number): string {
+  return `LCL ${formatTons(tons)} MT\n${buildLineQuantityText(bagsInt)}`
+}
+
+function buildRemarksEnglish(
+  settings: ExternalQuotationPayload['settings'],
+  incoterm: Incoterm,
+  portName: string,
+): string {
   const quoteValidDays = asNumber(settings?.quote_valid_days, 0)
-  return `FOB ${portName}.\nValidity: ${quoteValidDays} days from quotation date.\nPayment Terms: T/T.`
+  const namedPlace = incoterm === 'EXW' ? 'Factory' : portName
+  return `${incoterm} ${namedPlace}.\nValidity: ${quoteValidDays} days from quotation date.\nPayment Terms: T/T.`
 }
 
 export async function exportExternalQuotationExcel(
@@ -130,18 +242,20 @@ export async function exportExternalQuotationExcel(
 
   const exportedAt = payload.meta?.exportedAtISO ? new Date(payload.meta.exportedAtISO) : new Date()
   const quotationDate = formatDateDDMMYYYY(exportedAt)
-  const bagsInt = asNumber(payload.quoteResult?.summary?.bags_int, 0)
-  const sellUsdPerBag = asNumber(payload.quoteResult?.summary?.sell_usd_per_bag, 0)
-  const amountUsd = Number((sellUsdPerBag * bagsInt).toFixed(2))
-  const containerType = payload.input?.containerType ?? payload.quoteResult?.summary?.container_type ?? '20GP'
-  const polPortName = resolvePortNameEnglish(payload.input)
-  const desc =
-    (payload.input?.description_en && payload.input.description_en.trim()) ||
-    (payload.input?.description && String(payload.input.description).trim()) ||
-    ''
-  const packagingText = buildPackagingEnglish(payload.input)
-  const quantityBlockText = buildQuantityBlock(containerType, bagsInt)
-  const remarksText = buildRemarksEnglish(payload.settings, polPortName)
+  const lines: ExternalQuotationLine[] =
+    payload.lines && payload.lines.length > 0
+      ? payload.lines
+      : [{ quoteResult: payload.quoteResult, input: payload.input }]
+  const priceBreaks = payload.priceBreaks ?? []
+  const isTiered = priceBreaks.length > 0
+  const isMultiLine = !isTiered && lines.length > 1
+  const alternatives = payload.alternatives ?? []
+  const itemRows = [
+    ...(isTiered
+      ? priceBreaks.map((line, index) => ({ line, alternativeIndex: 0, tierIndex: index + 1 }))
+      : lines.map((line) => ({ line, alternativeIndex: 0, tierIndex: 0 }))),
+    ...alternatives.map((line, index) => ({ line, alternativeIndex: index + 1, tierIndex: 0 })),
+  ]
 
   const tel = payload.settings?.tel?.trim()
   const whatsapp = payload.settings?.whatsapp?.trim()
@@ -185,20 +299,105 @@ export async function exportExternalQuotationExcel(
     sheet.getCell('A5').value = `Quotation Date: ${quotationDate}`
   }
 
-  sheet.getCell('B9').value = desc
-  const b9Alignment = sheet.getCell('B9').alignment ?? {}
-  sheet.getCell('B9').alignment = {
-    ...b9Alignment,
-    wrapText: true,
-    vertical: 'middle',
-    horizontal: 'left',
+  const headerLine = isTiered ? priceBreaks[0] : lines[0]
+  sheet.getCell('F8').value = `${resolveIncoterm(headerLine)}  ${isTiered ? 'Amount per Tier' : 'Total Amount'}`
+  const headerCurrency = resolveLinePrice(headerLine).currency
+  if (headerCurrency !== 'USD') {
+    sheet.getCell('E7').value = `UNIT PRICE\n (${headerCurrency})`
+  }
+
+  if (itemRows.length > 1) {
+    sheet.duplicateRow(ITEM_FIRST_ROW, itemRows.length - 1, true)
+  }
+
+  let totalAmount = 0
+  let totalDecimals = 0
+  itemRows.forEach(({ line, alternativeIndex, tierIndex }, index) => {
+    const rowNumber = ITEM_FIRST_ROW + index
+    const bagsInt = asNumber(line.quoteResult?.summary?.bags_int, 0)
+    const linePrice = resolveLinePrice(line)
+    const lineAmount = linePrice.amount
+    const priceNumFmt = buildCurrencyNumFmt(linePrice.currency, linePrice.decimals)
+    const containerType = line.input?.containerType ?? line.quoteResult?.summary?.container_type ?? '20GP'
+    const incoterm = resolveIncoterm(line)
+    const deliveryPortName = resolveDeliveryPortEnglish(line.input ?? {}, incoterm)
+    const desc =
+      (line.input?.description_en && line.input.description_en.trim()) ||
+      (line.input?.description && String(line.input.description).trim()) ||
+      ''
+    if (alternativeIndex === 0) {
+      totalAmount += lineAmount
+      totalDecimals = Math.max(totalDecimals, linePrice.decimals)
+    }
+    const containerCount = Math.max(
+      1,
+      Math.round(asNumber(line.input?.containerCount ?? line.quoteResult?.summary?.container_count, 1)),
+    )
+
+    const descCell = sheet.getCell(`B${rowNumber}`)
+    descCell.value =
+      alternativeIndex > 0
+        ? `Alternative ${alternativeIndex}: ${desc}`
+        : tierIndex > 1
+          ? `Price break ${tierIndex}`
+          : tierIndex === 1
+            ? `${desc}\nPrice break 1`
+            : desc
+    descCell.alignment = {
+      ...(descCell.alignment ?? {}),
+      wrapText: true,
+      vertical: 'middle',
+      horizontal: 'left',
+    }
+    sheet.getCell(`C${rowNumber}`).value = buildPackagingEnglish(line.input ?? {})
+    const lineMode = line.input?.mode ?? line.quoteResult?.summary?.mode
+    // Document lines share the containers, so only the totals row states them.
+    sheet.getCell(`D${rowNumber}`).value =
+      isMultiLine && alternativeIndex === 0 && tierIndex === 0
+        ? buildLineQuantityText(bagsInt)
+        : lineMode === 'LCL'
+          ? buildLclQuantityBlock(asNumber(line.input?.tons ?? line.quoteResult?.summary?.tons, 0), bagsInt)
+          : buildQuantityBlock(containerType, bagsInt, containerCount)
+    sheet.getCell(`E${rowNumber}`).value = linePrice.price
+    sheet.getCell(`E${rowNumber}`).numFmt = priceNumFmt
+    sheet.getCell(`F${rowNumber}`).value = lineAmount
+    sheet.getCell(`F${rowNumber}`).numFmt = priceNumFmt
+    sheet.getCell(`G${rowNumber}`).value = deliveryPortName
+    const remarks = buildRemarksEnglish(payload.settings, incoterm, deliveryPortName)
+    sheet.getCell(`H${rowNumber}`).value =
+      alternativeIndex > 0 ? `Alternative offer, not included in total.\n${remarks}` : remarks
+
+    const quantityCell = sheet.getCell(`D${rowNumber}`)
+    quantityCell.alignment = { ...(quantityCell.alignment ?? {}), wrapText: true }
+    const remarksCell = sheet.getCell(`H${rowNumber}`)
+    remarksCell.alignment = { ...(remarksCell.alignment ?? {}), wrapText: true }
+  })
+
+  if (isMultiLine) {
+    const totalsRow = ITEM_FIRST_ROW + itemRows.length
+    const totalBags =
+      payload.totals?.bags_int ??
+      lines.reduce((acc, line) => acc + asNumber(line.quoteResult?.summary?.bags_int, 0), 0)
+    const totalsContainerType =
+      payload.totals?.container_type ?? lines[0].quoteResult?.summary?.container_type ?? '20GP'
+    const totalsContainerCount = asNumber(payload.totals?.container_count, 1)
+    const totalsMode = payload.totals?.mode ?? lines[0].quoteResult?.summary?.mode
+    const totalTons =
+      payload.totals?.tons ?? lines.reduce((acc, line) => acc + asNumber(line.quoteResult?.summary?.tons, 0), 0)
+    sheet.getCell(`B${totalsRow}`).value = 'TOTAL'
+    sheet.getCell(`D${totalsRow}`).value =
+      totalsMode === 'LCL'
+        ? buildLclQuantityBlock(totalTons, totalBags)
+        : buildQuantityBlock(totalsContainerType, totalBags, totalsContainerCount)
+    sheet.getCell(`F${totalsRow}`).value = Number(totalAmount.toFixed(totalDecimals))
+    sheet.getCell(`F${totalsRow}`).numFmt = sheet.getCell(`F${ITEM_FIRST_ROW}`).numFmt
+    ;['B', 'D', 'F'].forEach((col) => {
+      const cell = sheet.getCell(`${col}${totalsRow}`)
+      cell.font = { ...(cell.font ?? {}), bold: true }
+      cell.alignment = { ...(cell.alignment ?? {}), wrapText: true, vertical: 'middle' }
+    })
+    sheet.getRow(totalsRow).height = 32
   }
-  sheet.getCell('C9').value = packagingText
-  sheet.getCell('D9').value = quantityBlockText
-  sheet.getCell('E9').value = Number(sellUsdPerBag.toFixed(2))
-  sheet.getCell('F9').value = amountUsd
-  sheet.getCell('G9').value = polPortName
-  sheet.getCell('H9').value = remarksText
 
   try {
     const logoPath = path.join(process.cwd(), 'resources', 'logo.png')
@@ -215,8 +414,10 @@ export async function exportExternalQuotationExcel(
     // Skip logo insertion when logo file is unavailable.
   }
 
-  if (isNonEmptyText(payload.input?.image_path)) {
-    const imagePath = payload.input.image_path.trim()
+  for (const [index, { line, tierIndex }] of itemRows.entries()) {
+    // Price breaks share one product, so only the first tier carries the image.
+    if (tierIndex > 1 || !isNonEmptyText(line.input?.image_path)) continue
+    const imagePath = line.input.image_path.trim()
     try {
       await access(imagePath, fsConstants.F_OK)
       const extRaw = path.extname(imagePath).toLowerCase().replace('.', '')
@@ -227,7 +428,7 @@ export async function exportExternalQuotationExcel(
           extension: extension as 'png' | 'jpeg',
         })
         sheet.addImage(imageId, {
-          tl: { col: 0, row: 8 },
+          tl: { col: 0, row: ITEM_FIRST_ROW - 1 + index },
           ext: { width: 140, height: 140 },
         })
       }
@@ -236,10 +437,5 @@ export async function exportExternalQuotationExcel(
     }
   }
 
-  const d9Alignment = sheet.getCell('D9').alignment ?? {}
-  sheet.getCell('D9').alignment = { ...d9Alignment, wrapText: true }
-  const h9Alignment = sheet.getCell('H9').alignment ?? {}
-  sheet.getCell('H9').alignment = { ...h9Alignment, wrapText: true }
-
   await workbook.xlsx.writeFile(outputPath)
 }
@@ -0,0 +1,86 @@
+import ExcelJS from 'exceljs'
+
+export interface SensitivityGridSheet {
+  name: string
+  numFmt: string
+  cells: Array<Array<number | null>>
+}
+
+export interface SensitivityGridPayload {
+  title: string
+  rowAxisLabel: string
+  colAxisLabel: string
+  rowLabels: string[]
+  colLabels: string[]
+  sheets: SensitivityGridSheet[]
+  meta?: {
+    exportedAtISO?: string
+  }
+}
+
+const HEADER_FILL: ExcelJS.Fill = {
+  type: 'pattern',
+  pattern: 'solid',
+  fgColor: { argb: 'FFE8EEF7' },
+}
+
+// Excel rejects sheet names longer than 31 chars or containing []:*?/\
+function sanitizeSheetName(name: string, index: number): string {
+  const cleaned = name.replace(/[[\]:*?/\\]/g, '').trim().slice(0, 31)
+  return cleaned || `Sheet${index + 1}`
+}
+
+function writeGridSheet(workbook: ExcelJS.Workbook, payload: SensitivityGridPayload, grid: SensitivityGridSheet, index: number) {
+  const sheet = workbook.addWorksheet(sanitizeSheetName(grid.name, index))
+  sheet.getCell('A1').value = payload.title
+  sheet.getCell('A1').font = { bold: true, size: 13 }
+  sheet.getCell('A2').value = grid.name
+
+  // Row 4 holds column headers; column A holds row headers, A4 names both axes.
+  const headerRow = 4
+  const corner = sheet.getCell(headerRow, 1)
+  corner.value = `${payload.rowAxisLabel} \\ ${payload.colAxisLabel}`
+  corner.font = { bold: true }
+  corner.fill = HEADER_FILL
+  payload.colLabels.forEach((label, colIndex) => {
+    const cell = sheet.getCell(headerRow, colIndex + 2)
+    cell.value = label
+    cell.font = { bold: true }
+    cell.fill = HEADER_FILL
+    cell.alignment = { horizontal: 'center' }
+  })
+
+  payload.rowLabels.forEach((label, rowIndex) => {
+    const rowNumber = headerRow + 1 + rowIndex
+    const rowHeader = sheet.getCell(rowNumber, 1)
+    rowHeader.value = label
+    rowHeader.font = { bold: true }
+    rowHeader.fill = HEADER_FILL
+    payload.colLabels.forEach((_, colIndex) => {
+      const value = grid.cells[rowIndex]?.[colIndex]
+      const cell = sheet.getCell(rowNumber, colIndex + 2)
+      if (value === null || value === undefined || !Number.isFinite(value)) {
+        cell.value = '-'
+        cell.alignment = { horizontal: 'center' }
+        return
+      }
+      cell.value = value
+      cell.numFmt = grid.numFmt
+    })
+  })
+
+  sheet.getColumn(1).width = 22
+  payload.colLabels.forEach((_, colIndex) => {
+    sheet.getColumn(colIndex + 2).width = 14
+  })
+}
+
+export async function exportSensitivityGridExcel(payload: SensitivityGridPayload, outputPath: string): Promise<void> {
+  if (!Array.isArray(payload?.sheets) || payload.sheets.length === 0) {
+    throw new Error('Sensitivity grid payload has no sheets.')
+  }
+  const workbook = new ExcelJS.Workbook()
+  workbook.created = payload.meta?.exportedAtISO ? new Date(payload.meta.exportedAtISO) : new Date()
+  payload.sheets.forEach((grid, index) => writeGridSheet(workbook, payload, grid, index))
+  await workbook.xlsx.writeFile(outputPath)
+}
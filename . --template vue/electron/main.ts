@@ -8,11 +8,29 @@ import {
   exportExternalQuotationExcel,
   type ExternalQuotationPayload,
 } from './exporters/exportExternalQuotationExcel'
+import {
+  exportSensitivityGridExcel,
+  type SensitivityGridPayload,
+} from './exporters/exportSensitivityGridExcel'
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url))
 
 type Mode = 'FCL' | 'LCL'
 type ContainerType = '20GP' | '40HQ' | '40FT'
+type FactoryCostUnit = 'ton' | 'bag' | 'piece' | 'carton'
+type RebateMode = 'vat_invoice' | 'simplified'
+type PriceAdjustmentBasis = 'pct_of_sell' | 'usd_per_bag'
+type LclChargeBasis = 'weight' | 'measure' | 'wm'
+type ExtraChargeBasis = 'shipment' | 'container' | 'ton' | 'bag'
+type LandFreightBasis = 'per_ton' | 'per_trip'
+type RoundingPolicy = 'ceil' | 'half_up' | 'floor' | 'step'
+type PricingFormulaMode =
+  | 'divide'
+  | 'multiply'
+  | 'fixed_usd_per_bag'
+  | 'fixed_usd_per_ton'
+  | 'fixed_rmb_per_bag'
+  | 'fixed_rmb_per_ton'
 
 interface Settings {
   fx_rate: number
@@ -23,11 +41,14 @@ interface Settings {
     rmb_decimals: number
     usd_decimals: number
   }
-  pricing_formula_mode: string
-  rounding_policy: string
+  pricing_formula_mode: PricingFormulaMode
+  fixed_profit_value?: number
+  rounding_policy: RoundingPolicy
+  price_step?: number
   load_basis_default?: 'tons' | 'cbm'
   overflow_strategy?: 'upgrade_then_split' | 'split_same_type' | 'best_fit'
   container_planning_sequence?: ContainerType[]
+  insurance_pct?: number
   terms_template: string
   user_profiles?: Array<{
     id: string
@@ -70,6 +91,15 @@ interface PackagingOption {
   carton_cbm: number | null
 }
 
+interface SetupCharge {
+  id: string
+  packaging_option_id: string
+  name: string
+  amount_rmb: number
+  moq_bags: number | null
+  waived_on_repeat: boolean
+}
+
 interface PackagingRecommendation {
   id: string
   product_id: string
@@ -83,6 +113,8 @@ interface Factory {
   id: string
   name: string
   default_port_id: string | null
+  rebate_mode?: RebateMode
+  land_zone?: string | null
 }
 
 interface FactoryProductCost {
@@ -90,13 +122,14 @@ interface FactoryProductCost {
   factory_id: string
   product_id: string
   cost_rmb_per_ton: number
-  cost_unit?: 'ton' | 'bag' | 'piece' | 'carton'
+  cost_unit?: FactoryCostUnit
 }
 
 interface Port {
   id: string
   name: string
   code: string
+  country?: string | null
 }
 
 interface PortChargesRule {
@@ -106,6 +139,39 @@ interface PortChargesRule {
   container_type: ContainerType | null
   base_rmb: number
   extra_rmb_per_ton: number
+  lcl_basis?: LclChargeBasis | null
+  extra_rmb_per_cbm?: number | null
+  min_chargeable?: number | null
+}
+
+interface ExtraCharge {
+  id: string
+  name: string
+  amount_rmb: number
+  basis: ExtraChargeBasis
+  port_id: string | null
+  customer_id: string | null
+  country: string | null
+  auto_apply: boolean
+}
+
+interface OceanFreightRule {
+  id: string
+  pol_port_id: string | null
+  destination_port_id: string
+  mode: Mode
+  container_type: ContainerType | null
+  base_usd: number
+  extra_usd_per_ton: number
+}
+
+// 汇率为 1 单位该币种折合的 RMB；USD 始终使用报价汇率 fx_rate。
+interface Currency {
+  id: string
+  code: string
+  name: string
+  rate_to_rmb: number
+  decimals: number
 }
 
 interface ContainerLoadRule {
@@ -114,6 +180,18 @@ interface ContainerLoadRule {
   container_type: ContainerType
   max_tons: number
   max_cbm?: number | null
+  max_pallets?: number | null
+}
+
+interface PalletSpec {
+  id: string
+  name: string
+  pallet_type: string
+  packaging_option_id: string | null
+  cartons_per_pallet: number
+  pallet_cost_rmb: number
+  pallet_weight_kg: number
+  pallet_cbm: number
 }
 
 interface LandFreightRule {
@@ -124,6 +202,9 @@ interface LandFreightRule {
   min_rmb_per_ton: number
   max_rmb_per_ton: number
   default_rmb_per_ton: number
+  basis?: LandFreightBasis | null
+  rmb_per_trip?: number | null
+  zone?: string | null
 }
 
 interface FactoryPackagingOverride {
@@ -139,7 +220,12 @@ interface Customer {
   name: string
   contact?: string | null
   default_port_id?: string | null
+  default_currency?: string | null
   terms_template?: string | null
+  commission_basis?: PriceAdjustmentBasis | null
+  commission_value?: number | null
+  discount_basis?: PriceAdjustmentBasis | null
+  discount_value?: number | null
 }
 
 interface CalculationHistory {
@@ -154,10 +240,15 @@ interface AppData {
   products: Product[]
   packaging_options: PackagingOption[]
   packaging_recommendations: PackagingRecommendation[]
+  setup_charges: SetupCharge[]
   factories: Factory[]
   factory_product_costs: FactoryProductCost[]
   ports: Port[]
   port_charges_rules: PortChargesRule[]
+  extra_charges: ExtraCharge[]
+  ocean_freight_rules: OceanFreightRule[]
+  currencies: Currency[]
+  pallet_specs: PalletSpec[]
   container_load_rules: ContainerLoadRule[]
   land_freight_rules: LandFreightRule[]
   factory_packaging_overrides: FactoryPackagingOverride[]
@@ -172,6 +263,8 @@ interface LegacyProduct {
   price_per_ton?: number | string | null
   origin?: string
   custom_pkg_price?: number | string | null
+  custom_pkg_moq?: number | string | null
+  plate_fee?: number | string | null
   units_per_box?: number | string | null
   box_unit_price?: number | string | null
   shipping_fees?: Record<string, number>
@@ -188,10 +281,15 @@ type EditableTableKey =
   | 'products'
   | 'packaging_options'
   | 'packaging_recommendations'
+  | 'setup_charges'
   | 'factories'
   | 'factory_product_costs'
   | 'ports'
   | 'port_charges_rules'
+  | 'extra_charges'
+  | 'ocean_freight_rules'
+  | 'currencies'
+  | 'pallet_specs'
   | 'container_load_rules'
   | 'land_freight_rules'
   | 'factory_packaging_overrides'
@@ -202,10 +300,15 @@ const EDITABLE_TABLES: EditableTableKey[] = [
   'products',
   'packaging_options',
   'packaging_recommendations',
+  'setup_charges',
   'factories',
   'factory_product_costs',
   'ports',
   'port_charges_rules',
+  'extra_charges',
+  'ocean_freight_rules',
+  'currencies',
+  'pallet_specs',
   'container_load_rules',
   'land_freight_rules',
   'factory_packaging_overrides',
@@ -269,10 +372,13 @@ function createEmptyData(): AppData {
         usd_decimals: 4,
       },
       pricing_formula_mode: 'divide',
+      fixed_profit_value: 0,
       rounding_policy: 'ceil',
+      price_step: 0.05,
       load_basis_default: 'tons',
       overflow_strategy: 'upgrade_then_split',
       container_planning_sequence: ['20GP', '40HQ', '40FT'],
+      insurance_pct: 0.003,
       terms_template: '',
       user_profiles: [
         {
@@ -287,6 +393,7 @@ function createEmptyData(): AppData {
     products: [],
     packaging_options: [],
     packaging_recommendations: [],
+    setup_charges: [],
     factories: [],
     factory_product_costs: [],
     ports: [
@@ -322,6 +429,10 @@ function createEmptyData(): AppData {
         extra_rmb_per_ton: 300,
       },
     ],
+    extra_charges: [],
+    ocean_freight_rules: [],
+    currencies: [],
+    pallet_specs: [],
     container_load_rules: [],
     land_freight_rules: [],
     factory_packaging_overrides: [],
@@ -376,6 +487,41 @@ function normalizeOverflowStrategy(
   return fallback
 }
 
+function normalizeRoundingPolicy(value: unknown, fallback: RoundingPolicy = 'ceil'): RoundingPolicy {
+  const v = String(value ?? '').trim()
+  if (v === 'ceil' || v === 'half_up' || v === 'floor' || v === 'step') return v
+  return fallback
+}
+
+function normalizePriceStep(value: unknown, fallback: number): number {
+  const num = toNumber(value, fallback)
+  return num > 0 ? num : fallback
+}
+
+// 与报价引擎一致：保额按 CIF 的 110% 计，比例须在 [0, 1/1.1) 内，否则回退默认值。
+function normalizeInsurancePct(value: unknown, fallback: number): number {
+  const num = toNumber(value, fallback)
+  return num >= 0 && num * 1.1 < 1 ? num : fallback
+}
+
+function normalizePricingFormulaMode(
+  value: unknown,
+  fallback: PricingFormulaMode = 'divide',
+): PricingFormulaMode {
+  const v = String(value ?? '').trim()
+  if (
+    v === 'divide' ||
+    v === 'multiply' ||
+    v === 'fixed_usd_per_bag' ||
+    v === 'fixed_usd_per_ton' ||
+    v === 'fixed_rmb_per_bag' ||
+    v === 'fixed_rmb_per_ton'
+  ) {
+    return v
+  }
+  return fallback
+}
+
 function normalizeContainerPlanningSequence(value: unknown): ContainerType[] {
   if (!Array.isArray(value)) return ['20GP', '40HQ', '40FT']
   const allowed: ContainerType[] = ['20GP', '40HQ', '40FT']
@@ -466,6 +612,7 @@ function migrateLegacyData(raw: LegacyData): AppData {
   const containerLoadRules: ContainerLoadRule[] = []
   const factoryPackagingOverrides: FactoryPackagingOverride[] = []
   const packagingRecommendations: PackagingRecommendation[] = []
+  const setupCharges: SetupCharge[] = []
 
   oldProducts.forEach((legacy, index) => {
     const productId = `prod_${index + 1}`
@@ -505,6 +652,19 @@ function migrateLegacyData(raw: LegacyData): AppData {
       carton_cbm: null,
     })
 
+    const plateFee = toNumber(legacy.plate_fee, 0)
+    if (plateFee > 0) {
+      const moq = toNumber(legacy.custom_pkg_moq, 0)
+      setupCharges.push({
+        id: `stc_${index + 1}`,
+        packaging_option_id: packagingId,
+        name: '印版费',
+        amount_rmb: plateFee,
+        moq_bags: moq > 0 ? Math.round(moq) : null,
+        waived_on_repeat: true,
+      })
+    }
+
     const factoryId = getFactoryId(legacy.origin)
     factoryProductCosts.push({
       id: `fpc_${index + 1}`,
@@ -592,15 +752,19 @@ function migrateLegacyData(raw: LegacyData): AppData {
         usd_decimals: 4,
       },
       pricing_formula_mode: 'divide',
+      fixed_profit_value: 0,
       rounding_policy: 'ceil',
+      price_step: 0.05,
       load_basis_default: 'tons',
       overflow_strategy: 'upgrade_then_split',
       container_planning_sequence: ['20GP', '40HQ', '40FT'],
+      insurance_pct: 0.003,
       terms_template: '',
     },
     products,
     packaging_options: packagingOptions,
     packaging_recommendations: packagingRecommendations,
+    setup_charges: setupCharges,
     factories,
     factory_product_costs: factoryProductCosts,
     ports,
@@ -630,6 +794,10 @@ function migrateLegacyData(raw: LegacyData): AppData {
         extra_rmb_per_ton: 300,
       },
     ],
+    extra_charges: [],
+    ocean_freight_rules: [],
+    currencies: [],
+    pallet_specs: [],
     container_load_rules: containerLoadRules,
     land_freight_rules: landFreightRules,
     factory_packaging_overrides: factoryPackagingOverrides,
@@ -662,8 +830,10 @@ function normalizeAppData(raw: AppData): AppData {
       rmb_decimals: toNumber(raw.settings?.money_format?.rmb_decimals, 4),
       usd_decimals: toNumber(raw.settings?.money_format?.usd_decimals, 4),
     },
-    pricing_formula_mode: nonEmptyText(raw.settings?.pricing_formula_mode, 'divide'),
-    rounding_policy: nonEmptyText(raw.settings?.rounding_policy, 'ceil'),
+    pricing_formula_mode: normalizePricingFormulaMode(raw.settings?.pricing_formula_mode, 'divide'),
+    fixed_profit_value: Math.max(0, toNumber(raw.settings?.fixed_profit_value, 0)),
+    rounding_policy: normalizeRoundingPolicy(raw.settings?.rounding_policy, 'ceil'),
+    price_step: normalizePriceStep(raw.settings?.price_step, 0.05),
     load_basis_default: normalizeLoadBasis(raw.settings?.load_basis_default, 'tons'),
     overflow_strategy: normalizeOverflowStrategy(
       raw.settings?.overflow_strategy,
@@ -672,6 +842,7 @@ function normalizeAppData(raw: AppData): AppData {
     container_planning_sequence: normalizeContainerPlanningSequence(
       raw.settings?.container_planning_sequence,
     ),
+    insurance_pct: normalizeInsurancePct(raw.settings?.insurance_pct, 0.003),
     terms_template: nonEmptyText(raw.settings?.terms_template, ''),
     user_profiles:
       Array.isArray(raw.settings?.user_profiles) && raw.settings.user_profiles.length > 0
@@ -710,6 +881,26 @@ function normalizeAppData(raw: AppData): AppData {
     normalized.port_charges_rules = createEmptyData().port_charges_rules
   }
 
+  if (!Array.isArray(raw.extra_charges)) {
+    normalized.extra_charges = []
+  }
+
+  if (!Array.isArray(raw.ocean_freight_rules)) {
+    normalized.ocean_freight_rules = []
+  }
+
+  if (!Array.isArray(raw.currencies)) {
+    normalized.currencies = []
+  }
+
+  if (!Array.isArray(raw.pallet_specs)) {
+    normalized.pallet_specs = []
+  }
+
+  if (!Array.isArray(raw.setup_charges)) {
+    normalized.setup_charges = []
+  }
+
   if (Array.isArray(raw.land_freight_rules)) {
     normalized.land_freight_rules = raw.land_freight_rules.map((rule: any) => {
       if (rule.min_rmb_per_ton !== undefined || rule.max_rmb_per_ton !== undefined) {
@@ -869,14 +1060,19 @@ ipcMain.handle('update-settings', async (_event, settings: Partial<Settings>) =>
         appData.settings.money_format?.usd_decimals ?? 4,
       ),
     },
-    pricing_formula_mode: nonEmptyText(
+    pricing_formula_mode: normalizePricingFormulaMode(
       settings?.pricing_formula_mode,
       appData.settings.pricing_formula_mode ?? 'divide',
     ),
-    rounding_policy: nonEmptyText(
+    fixed_profit_value: Math.max(
+      0,
+      toNumber(settings?.fixed_profit_value, appData.settings.fixed_profit_value ?? 0),
+    ),
+    rounding_policy: normalizeRoundingPolicy(
       settings?.rounding_policy,
       appData.settings.rounding_policy ?? 'ceil',
     ),
+    price_step: normalizePriceStep(settings?.price_step, appData.settings.price_step ?? 0.05),
     load_basis_default: normalizeLoadBasis(
       settings?.load_basis_default,
       appData.settings.load_basis_default ?? 'tons',
@@ -890,6 +1086,7 @@ ipcMain.handle('update-settings', async (_event, settings: Partial<Settings>) =>
         appData.settings.container_planning_sequence ??
         ['20GP', '40HQ', '40FT'],
     ),
+    insurance_pct: normalizeInsurancePct(settings?.insurance_pct, appData.settings.insurance_pct ?? 0.003),
     terms_template: nonEmptyText(
       settings?.terms_template,
       appData.settings.terms_template ?? '',
@@ -931,7 +1128,15 @@ ipcMain.handle('save-calculation', async (_event, payload: unknown) => {
       data: payload,
     },
   })
-  appendOperationLog('calculate-quote')
+  // 国内运费覆盖（原因与规则上下限）同步写入操作日志，便于审计。
+  const record = payload as { land_override?: unknown; lines?: Array<{ line_id?: string; land_override?: unknown }> } | null
+  const landOverrides = [
+    ...(record?.land_override ? [record.land_override] : []),
+    ...(Array.isArray(record?.lines) ? record.lines : [])
+      .filter((line) => line?.land_override)
+      .map((line) => ({ line_id: line.line_id, ...(line.land_override as Record<string, unknown>) })),
+  ]
+  appendOperationLog('calculate-quote', landOverrides.length > 0 ? { land_overrides: landOverrides } : undefined)
   await db.write()
   return { success: true }
 })
@@ -994,12 +1199,21 @@ ipcMain.handle('export-external-quotation-xlsx', async (_event, payload: Externa
 
     const container = payload?.input?.containerType ?? payload?.quoteResult?.summary?.container_type ?? '20GP'
     const containerText = container === '20GP' ? '20FT' : '40HQ'
+    const lineCount = Array.isArray(payload?.lines) ? payload.lines.length : 0
     const weight = Number(payload?.input?.unitWeightKg ?? 0)
-    const weightText = Number.isFinite(weight) && weight > 0 ? `${Number(weight.toFixed(2)).toString()}KG` : '0KG'
-    const productName = sanitize(
-      payload?.input?.name_en || payload?.input?.productNameEn || payload?.input?.productName,
-      'Cat Litter',
-    )
+    const weightText =
+      lineCount > 1
+        ? ''
+        : Number.isFinite(weight) && weight > 0
+          ? `${Number(weight.toFixed(2)).toString()}KG`
+          : '0KG'
+    const productName =
+      lineCount > 1
+        ? `${lineCount} Items`
+        : sanitize(
+            payload?.input?.name_en || payload?.input?.productNameEn || payload?.input?.productName,
+            'Cat Litter',
+          )
     const dt = payload?.meta?.exportedAtISO ? new Date(payload.meta.exportedAtISO) : new Date()
     const dateText = fmtDate(dt)
     const baseName = `NINGBO JIUPENG TRADE CO. Quotation-${productName}-${weightText}${containerText}-${dateText}`
@@ -1033,3 +1247,32 @@ ipcMain.handle('export-external-quotation-xlsx', async (_event, payload: Externa
   }
 })
 
+ipcMain.handle('export-sensitivity-grid-xlsx', async (_event, payload: SensitivityGridPayload) => {
+  try {
+    const dt = payload?.meta?.exportedAtISO ? new Date(payload.meta.exportedAtISO) : new Date()
+    const dateText = `${dt.getFullYear()}-${String(dt.getMonth() + 1).padStart(2, '0')}-${String(dt.getDate()).padStart(2, '0')}`
+    const title = String(payload?.title ?? '').replace(/[\/:*?"<>|]/g, '').replace(/\s+/g, ' ').trim() || 'Quote'
+    const baseName = `Sensitivity-${title}-${dateText}`
+    const desktopPath = app.getPath('desktop')
+    let outputPath = path.join(desktopPath, `${baseName}.xlsx`)
+
+    let index = 1
+    while (true) {
+      try {
+        await access(outputPath, fsConstants.F_OK)
+        outputPath = path.join(desktopPath, `${baseName} (${index}).xlsx`)
+        index += 1
+      } catch {
+        break
+      }
+    }
+
+    await exportSensitivityGridExcel(payload, outputPath)
+    appendOperationLog('export-sensitivity-grid-xlsx', { filePath: outputPath })
+    await db.write()
+    return { success: true, filePath: outputPath }
+  } catch (error) {
+    return { success: false, message: error instanceof Error ? error.message : String(error) }
+  }
+})
+
@@ -0,0 +1,94 @@
+import { readFile } from 'node:fs/promises'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { createServer } from 'vite'
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+const projectRoot = path.resolve(__dirname, '..')
+
+function parseArgs(argv) {
+  const options = { dataPath: path.join(process.cwd(), 'data.json'), tolerance: {} }
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i]
+    const next = () => {
+      const value = argv[i + 1]
+      if (value === undefined) throw new Error(`missing value for ${arg}`)
+      i += 1
+      return value
+    }
+    const parseTolerance = (value) => {
+      const num = Number(value)
+      if (!Number.isFinite(num) || num < 0) throw new Error(`${arg} must be a number >= 0`)
+      return num
+    }
+    if (arg === '--data') options.dataPath = path.resolve(next())
+    else if (arg === '--tolerance-sell') options.tolerance.sell_usd_per_bag = parseTolerance(next())
+    else if (arg === '--tolerance-gp') options.tolerance.gp_rmb_per_bag = parseTolerance(next())
+    else throw new Error(`unknown argument: ${arg}`)
+  }
+  return options
+}
+
+// Loads the TypeScript engine through Vite's SSR loader so the `@/` alias resolves
+// without the Electron plugins from vite.config.ts.
+async function loadReplayModule() {
+  const server = await createServer({
+    configFile: false,
+    root: projectRoot,
+    logLevel: 'error',
+    appType: 'custom',
+    server: { middlewareMode: true, hmr: false },
+    optimizeDeps: { noDiscovery: true, include: [] },
+    resolve: { alias: { '@': path.join(projectRoot, 'src') } },
+  })
+  try {
+    return { module: await server.ssrLoadModule('/src/utils/replayHistory.ts'), server }
+  } catch (err) {
+    await server.close()
+    throw err
+  }
+}
+
+function formatEntry(entry) {
+  const label = `${entry.history_id}${entry.line_id ? ` / ${entry.line_id}` : ''} (${entry.timestamp})`
+  if (entry.status === 'deviation') {
+    const diffs = entry.diffs
+      .map((item) => `${item.field} saved=${item.saved} current=${item.current} diff=${item.diff}`)
+      .join('; ')
+    return `[DEVIATION] ${label}: ${diffs}`
+  }
+  if (entry.status === 'failed') return `[FAILED] ${label}: ${entry.message}`
+  if (entry.status === 'skipped') return `[SKIPPED] ${label}: ${entry.message}`
+  return `[OK] ${label}`
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2))
+  const data = JSON.parse(await readFile(options.dataPath, 'utf8'))
+  const { module, server } = await loadReplayModule()
+  try {
+    const tolerance = { ...module.DEFAULT_REPLAY_TOLERANCE, ...options.tolerance }
+    const results = module.replayHistory(data, tolerance)
+    console.log(`Data file: ${options.dataPath}`)
+    console.log(`Tolerance: sell_usd_per_bag=${tolerance.sell_usd_per_bag} gp_rmb_per_bag=${tolerance.gp_rmb_per_bag}`)
+    results.forEach((entry) => console.log(formatEntry(entry)))
+    const count = (status) => results.filter((entry) => entry.status === status).length
+    console.log(
+      `Checked ${results.length}: ${count('match')} ok, ${count('deviation')} deviation, ${count('failed')} failed, ${count('skipped')} skipped`,
+    )
+    if (count('deviation') > 0 || count('failed') > 0) process.exitCode = 1
+    // Nothing compared (e.g. only legacy entries) must not read as a passing run.
+    if (count('match') + count('deviation') === 0) {
+      console.log('No saved quote could be replayed against the current engine.')
+      process.exitCode = 1
+    }
+  } finally {
+    await server.close()
+  }
+}
+
+main().catch((err) => {
+  console.error('History verification failed:', err)
+  process.exit(1)
+})
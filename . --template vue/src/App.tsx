@@ -1,10 +1,44 @@
-import { useEffect, useMemo, useState, type CSSProperties, type MouseEvent } from 'react'
-import { Button, NumberInput, Select } from '@mantine/core'
+import { Fragment, useEffect, useMemo, useState, type CSSProperties, type MouseEvent } from 'react'
+import { Button, MultiSelect, NumberInput, Select, Switch } from '@mantine/core'
 import Admin from '@/components/Admin'
-import { calculateQuote, formatCurrency, type CalculateQuoteResult } from '@/utils/calculateQuote'
-import { INNER_PACK_LABELS } from '@/utils/fieldLabels'
+import {
+  BASE_SELL_CURRENCY,
+  calculateQuote,
+  calculateQuoteDocument,
+  findApplicableExtraCharges,
+  findLandFreightRule,
+  findPalletSpec,
+  resolveCbmPerBag,
+  resolveCostRmbPerTon,
+  resolveExtraChargeScope,
+  resolvePalletLoad,
+  type CalculateQuoteDocumentInput,
+  type CalculateQuoteDocumentResult,
+  type CalculateQuoteInput,
+  type CalculateQuoteResult,
+  type ContainerMixEntry,
+  type LandOverridePolicy,
+  type QuoteSummary,
+  type QuoteTraceValue,
+  type QuoteDocumentLineInput,
+  type QuoteWarning,
+} from '@/utils/calculateQuote'
+import { planContainers } from '@/utils/containerPlanner'
+import { solveTargetPrice, type SolveTargetPriceResult, type TargetSolveParameter } from '@/utils/solveTargetPrice'
+import {
+  buildAxisValues,
+  runSensitivityGrid,
+  type SensitivityAxisKey,
+  type SensitivityGridResult,
+} from '@/utils/sensitivityGrid'
+import { compareFactories, type FactoryComparisonRow } from '@/utils/compareFactories'
+import { compareShippingOptions, type ShippingOption, type ShippingOptionKey } from '@/utils/shippingOptions'
+import { parsePriceBreaks, runPriceLadder, type PriceBreakUnit, type PriceLadderResult } from '@/utils/priceLadder'
+import { suggestFillQuantities, type FillSuggestion } from '@/utils/fillSuggestions'
+import { INNER_PACK_LABELS, PRICING_FORMULA_LABELS, ROUNDING_POLICY_LABELS } from '@/utils/fieldLabels'
+import { formatCurrency } from '@/utils/currency'
 import { nextIdFromRows } from '@/utils/id'
-import { t } from '@/i18n'
+import { t, tf } from '@/i18n'
 import { useUiTheme } from '@/ui/ThemeProvider'
 import type {
   AppData,
@@ -12,19 +46,55 @@ import type {
   ContainerType,
   Customer,
   Factory,
+  FactoryCostUnit,
   FactoryProductCost,
+  Incoterm,
   InnerPackType,
   Mode,
   PackagingOption,
   Port,
+  PriceAdjustmentBasis,
+  PricingFormulaMode,
   Product,
+  QtyInputType,
+  UserRole,
 } from '@/types/domain'
 
 const APP_VERSION = '2.8.4'
+
+const formatQuoteWarning = (warning: QuoteWarning) => tf(`quote.warning.${warning.code}`, warning.params)
+
+interface QuoteDocumentLineDraft {
+  input: QuoteDocumentLineInput
+  productName: string
+  productNameEn?: string
+  descriptionEn?: string
+  packagingText: string
+  unitWeightKg: number
+  unitsPerCarton: number | null
+  imagePath?: string
+  polPortName: string
+}
+
 const dimTextStyle: CSSProperties = { color: 'var(--text-dim)' }
 const sectionTitleStyle: CSSProperties = { marginBottom: 8, fontSize: 13, color: 'var(--text-dim)' }
 const fieldLabelStyle: CSSProperties = { fontSize: 12, color: 'var(--text-dim)', marginBottom: 6 }
 
+type SensitivityMetric = 'sell_usd_per_bag' | 'gp_rmb_total'
+
+interface SensitivityAxisDraft {
+  key: SensitivityAxisKey
+  from: string
+  to: string
+  steps: string
+}
+
+const SENSITIVITY_AXIS_DEFAULTS: Record<SensitivityAxisKey, SensitivityAxisDraft> = {
+  fx_rate: { key: 'fx_rate', from: '6.8', to: '7.3', steps: '6' },
+  pricing_value: { key: 'pricing_value', from: '0.03', to: '0.1', steps: '8' },
+  factory_cost_pct: { key: 'factory_cost_pct', from: '-0.05', to: '0.05', steps: '5' },
+}
+
 function parseNumber(value: string): number | null {
   const trimmed = value.trim()
   if (!trimmed) return null
@@ -50,10 +120,51 @@ function sourceLabel(source: 'default' | 'override' | 'custom'): string {
   return t('quote.result.sourceDefault')
 }
 
+function factoryCostUnitLabel(unit: FactoryCostUnit): string {
+  if (unit === 'bag') return t('quote.unit.bagShort')
+  if (unit === 'piece') return t('quote.unit.piece')
+  if (unit === 'carton') return t('quote.unit.carton')
+  return t('quote.unit.ton')
+}
+
 function displayContainerType(type: ContainerType): string {
   return type === '20GP' ? '20FT' : type
 }
 
+function formatContainerMix(mix: ContainerMixEntry[]): string {
+  return mix.map((entry) => `${entry.count} x ${displayContainerType(entry.container_type)}`).join(' + ')
+}
+
+function formatTraceValue(value: QuoteTraceValue): string {
+  if (value === null) return '-'
+  if (typeof value === 'number') return String(Number(value.toFixed(6)))
+  return String(value)
+}
+
+// 国内运费覆盖的审计记录：覆盖值、原因、操作角色与各柜型规则上下限。
+// 取整设置未填时引擎读取当前设置，保存时固定为本次实际生效的值，重放才不受 Admin 调整影响。
+function resolvedRoundingInput(summary: QuoteSummary) {
+  return {
+    rounding_policy: summary.rounding_policy,
+    usd_decimals: summary.usd_decimals,
+    price_step: summary.price_step ?? undefined,
+  }
+}
+
+function buildLandOverrideAudit(result: CalculateQuoteResult, role: UserRole) {
+  const override = result.breakdown.land_override
+  if (!override) return null
+  return {
+    ...override,
+    role,
+    bounds: result.breakdown.land_freight_legs.map((leg) => ({
+      container_type: leg.container_type,
+      min_rmb_per_ton: leg.bounds?.min_rmb_per_ton ?? null,
+      max_rmb_per_ton: leg.bounds?.max_rmb_per_ton ?? null,
+    })),
+  }
+}
+
 function AnimatedMetric(props: { value: number; format: (value: number) => string; delayMs?: number }) {
   const { value, format, delayMs = 0 } = props
   const [displayValue, setDisplayValue] = useState(value)
@@ -107,6 +218,14 @@ function Quoter(props: { onOperationSaved?: () => void }) {
   const [selectedFactoryId, setSelectedFactoryId] = useState('')
   const [mode, setMode] = useState<Mode>('FCL')
   const [containerType, setContainerType] = useState<ContainerType>('20GP')
+  const [incoterm, setIncoterm] = useState<Incoterm>('FOB')
+  const [sellCurrency, setSellCurrency] = useState(BASE_SELL_CURRENCY)
+  const [destinationPortId, setDestinationPortId] = useState('')
+  const [palletized, setPalletized] = useState(false)
+  const [palletSpecId, setPalletSpecId] = useState('')
+  const [repeatOrder, setRepeatOrder] = useState(false)
+  // null 表示按适用范围自动带入附加费用。
+  const [extraChargeIds, setExtraChargeIds] = useState<string[] | null>(null)
   const [fclTonsHint, setFclTonsHint] = useState('')
   const [fclBagsHint, setFclBagsHint] = useState('')
   const [fclLastEdited, setFclLastEdited] = useState<'tons' | 'bags' | null>(null)
@@ -120,12 +239,37 @@ function Quoter(props: { onOperationSaved?: () => void }) {
   const [recommendedUnitsPerCarton, setRecommendedUnitsPerCarton] = useState<number | null>(null)
   const [fxRate, setFxRate] = useState('6.9')
   const [marginPct, setMarginPct] = useState('0.05')
+  const [pricingFormulaMode, setPricingFormulaMode] = useState<PricingFormulaMode>('divide')
+  const [fixedProfitValue, setFixedProfitValue] = useState('0')
   const [landFreightOverridePerTon, setLandFreightOverridePerTon] = useState('')
+  const [landFreightOverrideReason, setLandFreightOverrideReason] = useState('')
+  const [showTrace, setShowTrace] = useState(false)
+  const [commissionBasis, setCommissionBasis] = useState<PriceAdjustmentBasis | ''>('')
+  const [commissionValue, setCommissionValue] = useState('')
+  const [discountBasis, setDiscountBasis] = useState<PriceAdjustmentBasis | ''>('')
+  const [discountValue, setDiscountValue] = useState('')
   const [validationError, setValidationError] = useState('')
   const [exportMessage, setExportMessage] = useState('')
   const [quoteResult, setQuoteResult] = useState<CalculateQuoteResult | null>(null)
   const [autoContainerPlanText, setAutoContainerPlanText] = useState('')
   const [resultRevealActive, setResultRevealActive] = useState(false)
+  const [documentLines, setDocumentLines] = useState<QuoteDocumentLineDraft[]>([])
+  const [documentResult, setDocumentResult] = useState<CalculateQuoteDocumentResult | null>(null)
+  const [targetSellUsd, setTargetSellUsd] = useState('')
+  const [targetSolveFor, setTargetSolveFor] = useState<TargetSolveParameter>('pricing_value')
+  const [targetSolveResult, setTargetSolveResult] = useState<SolveTargetPriceResult | null>(null)
+  const [sensitivityRowAxis, setSensitivityRowAxis] = useState<SensitivityAxisDraft>(SENSITIVITY_AXIS_DEFAULTS.fx_rate)
+  const [sensitivityColAxis, setSensitivityColAxis] = useState<SensitivityAxisDraft>(SENSITIVITY_AXIS_DEFAULTS.pricing_value)
+  const [sensitivityMetric, setSensitivityMetric] = useState<SensitivityMetric>('sell_usd_per_bag')
+  const [sensitivityResult, setSensitivityResult] = useState<SensitivityGridResult | null>(null)
+  const [factoryComparison, setFactoryComparison] = useState<FactoryComparisonRow[] | null>(null)
+  const [factoryComparisonSort, setFactoryComparisonSort] = useState<'net' | 'gp'>('net')
+  const [shippingOptions, setShippingOptions] = useState<ShippingOption[] | null>(null)
+  const [fillSuggestions, setFillSuggestions] = useState<FillSuggestion[]>([])
+  const [priceBreakUnit, setPriceBreakUnit] = useState<PriceBreakUnit>('containers')
+  const [priceBreakText, setPriceBreakText] = useState('1, 2, 5, 10')
+  const [priceLadder, setPriceLadder] = useState<PriceLadderResult | null>(null)
+  const [alternativeOptionKeys, setAlternativeOptionKeys] = useState<ShippingOptionKey[]>([])
 
   const loadData = async () => {
     setLoading(true)
@@ -136,6 +280,8 @@ function Quoter(props: { onOperationSaved?: () => void }) {
       setData(appData)
       setFxRate(String(appData.settings.fx_rate ?? 6.9))
       setMarginPct(String(appData.settings.margin_pct ?? 0.05))
+      setPricingFormulaMode(appData.settings.pricing_formula_mode ?? 'divide')
+      setFixedProfitValue(String(appData.settings.fixed_profit_value ?? 0))
     } catch (error) {
       console.error(error)
       setLoadError(t('common.loadFailedRetry'))
@@ -153,6 +299,54 @@ function Quoter(props: { onOperationSaved?: () => void }) {
     ;(data?.ports ?? []).forEach((port) => map.set(port.id, port))
     return map
   }, [data])
+  const destinationPortOptions = useMemo(
+    () => (data?.ports ?? []).map((port) => ({ value: port.id, label: port.code ? `${port.name} (${port.code})` : port.name })),
+    [data],
+  )
+  const sellCurrencyOptions = useMemo(
+    () => [
+      { value: BASE_SELL_CURRENCY, label: BASE_SELL_CURRENCY },
+      ...(data?.currencies ?? [])
+        .filter((currency) => currency.code.trim())
+        .map((currency) => ({ value: currency.code, label: currency.name ? `${currency.code} ${currency.name}` : currency.code })),
+    ],
+    [data],
+  )
+  const needsDestinationPort = incoterm === 'CFR' || incoterm === 'CIF'
+  const usesMarginPct = pricingFormulaMode === 'divide' || pricingFormulaMode === 'multiply'
+  const pricingInputError = (() => {
+    if (usesMarginPct) {
+      const margin = parseNumber(marginPct)
+      if (pricingFormulaMode === 'multiply') {
+        if (margin === null || margin < 0) return t('quote.markupRange')
+      } else if (margin === null || margin < 0 || margin >= 1) {
+        return t('quote.marginRange')
+      }
+    } else {
+      const fixedProfit = parseNumber(fixedProfitValue)
+      if (fixedProfit === null || fixedProfit < 0) return t('quote.fixedProfitRange')
+    }
+    const adjustmentInvalid = (basis: PriceAdjustmentBasis | '', value: string) => {
+      if (!basis) return false
+      const parsed = parseNumber(value)
+      return parsed === null || parsed < 0 || (basis === 'pct_of_sell' && parsed >= 1)
+    }
+    if (adjustmentInvalid(commissionBasis, commissionValue)) return t('quote.commissionRange')
+    if (adjustmentInvalid(discountBasis, discountValue)) return t('quote.discountRange')
+    return ''
+  })()
+  const pricingInput = {
+    margin_pct: usesMarginPct ? Number(marginPct) : 0,
+    pricing_formula_mode: pricingFormulaMode,
+    fixed_profit_value: usesMarginPct ? undefined : Number(fixedProfitValue),
+    commission: commissionBasis ? { basis: commissionBasis, value: Number(commissionValue) } : null,
+    discount: discountBasis ? { basis: discountBasis, value: Number(discountValue) } : null,
+  }
+  const priceAdjustmentOptions = [
+    { value: '', label: t('quote.priceAdjustment.none') },
+    { value: 'pct_of_sell', label: t('quote.priceAdjustment.pct_of_sell') },
+    { value: 'usd_per_bag', label: t('quote.priceAdjustment.usd_per_bag') },
+  ]
 
   const products = data?.products ?? []
   const customers: Customer[] = data?.customers ?? []
@@ -170,6 +364,46 @@ function Quoter(props: { onOperationSaved?: () => void }) {
     () => packagingOptions.find((item) => item.id === selectedPackagingId) ?? null,
     [packagingOptions, selectedPackagingId],
   )
+  const palletSpecOptions = useMemo(
+    () =>
+      (data?.pallet_specs ?? [])
+        .filter((spec) => !spec.packaging_option_id || spec.packaging_option_id === selectedPackagingId)
+        .map((spec) => ({ value: spec.id, label: spec.pallet_type ? `${spec.name} (${spec.pallet_type})` : spec.name })),
+    [data, selectedPackagingId],
+  )
+  const activePalletSpecId = palletized && palletSpecId ? palletSpecId : null
+
+  useEffect(() => {
+    if (palletSpecOptions.some((option) => option.value === palletSpecId)) return
+    setPalletSpecId(palletSpecOptions[0]?.value ?? '')
+  }, [palletSpecOptions, palletSpecId])
+
+  const applicableExtraCharges = useMemo(() => {
+    if (!data || !selectedProduct) return []
+    return findApplicableExtraCharges(
+      data,
+      resolveExtraChargeScope(
+        data,
+        selectedProduct.pol_port_id,
+        selectedCustomerId || null,
+        needsDestinationPort ? destinationPortId || null : null,
+      ),
+    )
+  }, [data, selectedProduct, selectedCustomerId, needsDestinationPort, destinationPortId])
+  const extraChargeOptions = applicableExtraCharges.map((charge) => ({
+    value: charge.id,
+    label: tf('quote.extraChargeOption', {
+      name: charge.name,
+      amount: charge.amount_rmb,
+      basis: t(`quote.extraChargeBasis.${charge.basis}`),
+    }),
+  }))
+  const selectedExtraChargeIds =
+    extraChargeIds ?? applicableExtraCharges.filter((charge) => charge.auto_apply).map((charge) => charge.id)
+
+  useEffect(() => {
+    setExtraChargeIds(null)
+  }, [selectedProductId, selectedCustomerId, needsDestinationPort, destinationPortId])
 
   const factories: Factory[] = data?.factories ?? []
   const factoryCostByFactoryId = useMemo(() => {
@@ -292,21 +526,14 @@ function Quoter(props: { onOperationSaved?: () => void }) {
   }, [selectedPackaging, showCustomPackaging, customUnitsPerCarton])
 
   const selectedFactoryCostPerTonUsed = useMemo(() => {
-    if (!Number.isFinite(selectedFactoryCost ?? Number.NaN) || !selectedFactoryCost || selectedFactoryCost <= 0) {
+    if (!selectedFactoryCostRecord || !selectedFactoryCost || !(selectedFactoryCost > 0)) return null
+    try {
+      const perTon = resolveCostRmbPerTon(selectedFactoryCostRecord, bagsPerTon ?? Number.NaN, effectiveUnitsPerCartonForCost)
+      return Number.isFinite(perTon) && perTon > 0 ? perTon : null
+    } catch {
       return null
     }
-    const base = Number(selectedFactoryCost)
-    if (selectedFactoryCostUnit === 'ton') return base
-    if (!bagsPerTon || bagsPerTon <= 0) return null
-    if (selectedFactoryCostUnit === 'bag' || selectedFactoryCostUnit === 'piece') {
-      return base * bagsPerTon
-    }
-    if (selectedFactoryCostUnit === 'carton') {
-      if (!effectiveUnitsPerCartonForCost || effectiveUnitsPerCartonForCost <= 0) return null
-      return base * (bagsPerTon / effectiveUnitsPerCartonForCost)
-    }
-    return base
-  }, [selectedFactoryCost, selectedFactoryCostUnit, bagsPerTon, effectiveUnitsPerCartonForCost])
+  }, [selectedFactoryCostRecord, selectedFactoryCost, bagsPerTon, effectiveUnitsPerCartonForCost])
   const manualTons = useMemo(() => parseNumber(fclTonsHint), [fclTonsHint])
   const manualBags = useMemo(() => parseNumber(fclBagsHint), [fclBagsHint])
 
@@ -326,63 +553,48 @@ function Quoter(props: { onOperationSaved?: () => void }) {
     return { basis: 'cbm' as const, demand: bagsByInput * unitCbm }
   }, [data?.settings.load_basis_default, manualTons, manualBags, effectiveUnitWeight, showCustomPackaging, selectedPackaging, bagsPerTon])
 
+  const planningCbmPerBag = useMemo(
+    () => (selectedPackaging ? resolveCbmPerBag(selectedPackaging, effectiveUnitsPerCartonForCost ?? null) : null),
+    [selectedPackaging, effectiveUnitsPerCartonForCost],
+  )
+  const planningPalletLoad = useMemo(() => {
+    if (!data || !activePalletSpecId || !effectiveUnitWeight) return null
+    try {
+      return resolvePalletLoad(
+        findPalletSpec(data, activePalletSpecId),
+        effectiveUnitsPerCartonForCost ?? null,
+        effectiveUnitWeight,
+        planningCbmPerBag,
+      )
+    } catch {
+      return null
+    }
+  }, [data, activePalletSpecId, effectiveUnitsPerCartonForCost, effectiveUnitWeight, planningCbmPerBag])
+
   const autoContainerPlan = useMemo(() => {
     if (!selectedProductId || !data) return null
-
-    const sequence = data.settings.container_planning_sequence?.length
-      ? data.settings.container_planning_sequence
-      : (['20GP', '40HQ', '40FT'] as ContainerType[])
-    const fallbackCapTons: Record<ContainerType, number> = { '20GP': 20, '40HQ': 26, '40FT': 26 }
-    const fallbackCapCbm: Record<ContainerType, number> = { '20GP': 28, '40HQ': 68, '40FT': 58 }
-    const loadBasis = data.settings.load_basis_default ?? 'tons'
-    const strategy = data.settings.overflow_strategy ?? 'upgrade_then_split'
     const demand = demandForPlanning.demand
     if (!demand || demand <= 0) return null
-
-    const getCapacity = (type: ContainerType) => {
-      const rule = data.container_load_rules.find(
-        (item) => item.product_id === selectedProductId && item.container_type === type,
-      )
-      if (loadBasis === 'cbm') {
-        const fromRule = rule?.max_cbm ?? null
-        return fromRule && fromRule > 0 ? fromRule : fallbackCapCbm[type]
-      }
-      const fromRule = rule?.max_tons ?? null
-      return fromRule && fromRule > 0 ? fromRule : fallbackCapTons[type]
-    }
-
-    const sorted = [...sequence]
-    const base = sorted.includes(containerType) ? containerType : sorted[0]
-    const baseCap = getCapacity(base)
-    let resolvedType: ContainerType = base
-    let resolvedCap = baseCap
-
-    if (strategy === 'upgrade_then_split' || strategy === 'best_fit') {
-      const fit = sorted.find((type) => getCapacity(type) >= demand)
-      if (fit) {
-        resolvedType = fit
-        resolvedCap = getCapacity(fit)
-      } else {
-        const byCap = sorted.map((type) => ({ type, cap: getCapacity(type) })).sort((a, b) => b.cap - a.cap)
-        resolvedType = byCap[0]?.type ?? base
-        resolvedCap = byCap[0]?.cap ?? baseCap
-      }
-    }
-
-    if (strategy === 'split_same_type') {
-      resolvedType = base
-      resolvedCap = baseCap
-    }
-
-    const containerCount = Math.max(1, Math.ceil(demand / resolvedCap))
-    return {
-      type: resolvedType,
-      count: containerCount,
-      basis: loadBasis,
-      demand,
-      capacity: resolvedCap,
+    const plannedTons = manualTons ?? (manualBags && effectiveUnitWeight ? (manualBags * effectiveUnitWeight) / 1000 : null)
+    try {
+      return planContainers({
+        data,
+        product_id: selectedProductId,
+        factory_id: selectedFactoryId || undefined,
+        basis: demandForPlanning.basis,
+        demand,
+        tons: plannedTons ?? undefined,
+        cbm_per_ton: planningCbmPerBag && bagsPerTon ? planningCbmPerBag * bagsPerTon : null,
+        pallet: planningPalletLoad,
+        preferred_type: containerType,
+        destination_port_id: needsDestinationPort ? destinationPortId || null : null,
+        fx_rate: parseNumber(fxRate) ?? undefined,
+        land_fee_override_rmb_per_ton: parseNumber(landFreightOverridePerTon) ?? undefined,
+      })
+    } catch {
+      return null
     }
-  }, [selectedProductId, data, demandForPlanning.demand, containerType])
+  }, [selectedProductId, data, demandForPlanning, manualTons, manualBags, effectiveUnitWeight, planningCbmPerBag, planningPalletLoad, bagsPerTon, selectedFactoryId, containerType, needsDestinationPort, destinationPortId, fxRate, landFreightOverridePerTon])
 
   const packagingRecommendations = data?.packaging_recommendations ?? []
   const matchedRecommendation = useMemo(() => {
@@ -415,30 +627,42 @@ function Quoter(props: { onOperationSaved?: () => void }) {
     setRecommendedUnitsPerCarton(null)
   }, [showCustomPackaging, matchedRecommendation, unitsPerCartonTouched])
 
-  const landFreightRule = useMemo(() => {
-    if (!data || !selectedFactoryId) return null
-    return (
-      data.land_freight_rules.find(
-        (item) =>
-          item.mode === mode &&
-          item.container_type === containerType &&
-          item.factory_id === selectedFactoryId,
-      ) ??
-      data.land_freight_rules.find(
-        (item) =>
-          item.mode === mode &&
-          item.container_type === containerType &&
-          (item.factory_id === null || item.factory_id === ''),
-      ) ??
-      null
-    )
-  }, [data, selectedFactoryId, mode, containerType])
+  // 报价按自动配柜结果取柜型；整柜混装时引擎逐柜型校验运费规则。
+  const quotedContainerTypes = useMemo((): ContainerType[] => {
+    if (!autoContainerPlan) return [containerType]
+    if (mode !== 'FCL') return [autoContainerPlan.mix[0].container_type]
+    return Array.from(new Set(autoContainerPlan.mix.map((entry) => entry.container_type)))
+  }, [autoContainerPlan, mode, containerType])
+  const landFreightRules = useMemo(
+    () =>
+      data && selectedFactoryId
+        ? quotedContainerTypes.flatMap((type) => {
+            const rule = findLandFreightRule(data, mode, selectedFactoryId, type)
+            return rule ? [{ container_type: type, rule }] : []
+          })
+        : [],
+    [data, selectedFactoryId, mode, quotedContainerTypes],
+  )
+  const landFreightRule = landFreightRules.find((item) => item.container_type === quotedContainerTypes[0])?.rule ?? null
 
   const defaultLandFreightPerTon = landFreightRule?.default_rmb_per_ton ?? null
+  const activeUserRole: UserRole =
+    data?.settings.user_profiles?.find((profile) => profile.id === data.settings.active_user_profile_id)?.role ?? 'sales'
+  // 仅管理员可越过规则范围报价（记为 critical 警告），其他角色直接拦截。
+  const landOverridePolicy: LandOverridePolicy = activeUserRole === 'admin' ? 'warn' : 'block'
+  const landOverrideBounds = useMemo(
+    () =>
+      landFreightRules
+        .filter(({ rule }) => rule.max_rmb_per_ton > 0)
+        .map(({ container_type, rule }) => ({ container_type, min: Math.min(Math.max(rule.min_rmb_per_ton, 0), rule.max_rmb_per_ton), max: rule.max_rmb_per_ton })),
+    [landFreightRules],
+  )
   const rmbDecimals = Number(data?.settings.money_format?.rmb_decimals ?? 4)
   const usdDecimals = Number(data?.settings.money_format?.usd_decimals ?? 4)
   const formatRmb = (value: number, decimals = rmbDecimals) => formatCurrency(value, 'CNY', decimals)
   const formatUsd = (value: number, decimals = usdDecimals) => formatCurrency(value, 'USD', decimals)
+  const formatTargetSolveValue = (solveFor: TargetSolveParameter, value: number) =>
+    solveFor === 'pricing_value' ? String(Number(value.toFixed(6))) : formatRmb(value, 2)
 
   const productSelectData = useMemo(
     () =>
@@ -486,6 +710,15 @@ function Quoter(props: { onOperationSaved?: () => void }) {
     if (selected && selected.name && selected.name !== customerName) {
       setCustomerName(selected.name)
     }
+    if (selected?.default_currency) {
+      setSellCurrency(selected.default_currency)
+    }
+    if (selected) {
+      setCommissionBasis(selected.commission_basis ?? '')
+      setCommissionValue(selected.commission_value === null || selected.commission_value === undefined ? '' : String(selected.commission_value))
+      setDiscountBasis(selected.discount_basis ?? '')
+      setDiscountValue(selected.discount_value === null || selected.discount_value === undefined ? '' : String(selected.discount_value))
+    }
   }, [selectedCustomerId, customers])
 
   useEffect(() => {
@@ -495,7 +728,7 @@ function Quoter(props: { onOperationSaved?: () => void }) {
     }
     const unit = autoContainerPlan.basis === 'cbm' ? 'CBM' : '吨'
     setAutoContainerPlanText(
-      `${mode} 自动配柜：${autoContainerPlan.count} x ${displayContainerType(autoContainerPlan.type)}（需求 ${autoContainerPlan.demand.toFixed(2)} ${unit}，单柜容量 ${autoContainerPlan.capacity.toFixed(2)} ${unit}）`,
+      `${mode} 自动配柜：${formatContainerMix(autoContainerPlan.mix)}（需求 ${autoContainerPlan.demand.toFixed(2)} ${unit}，总容量 ${autoContainerPlan.total_capacity.toFixed(2)} ${unit}，装载率 ${autoContainerPlan.containers.map((item) => `${(item.utilization * 100).toFixed(1)}%`).join(' / ')}）`,
     )
   }, [mode, autoContainerPlan])
 
@@ -509,8 +742,18 @@ function Quoter(props: { onOperationSaved?: () => void }) {
     }
     const fx = parseNumber(fxRate)
     if (!fx || fx <= 0) return t('quote.fxMustPositive')
-    const margin = parseNumber(marginPct)
-    if (margin === null || margin < 0 || margin >= 1) return t('quote.marginRange')
+    if (pricingInputError) return pricingInputError
+    if (needsDestinationPort && !destinationPortId) return t('quote.destinationRequired')
+    const landOverride = parseNumber(landFreightOverridePerTon)
+    if (landOverride !== null) {
+      if (!landFreightOverrideReason.trim()) return t('quote.landOverrideReasonRequired')
+      const violated = landOverrideBounds.find((bounds) => landOverride < bounds.min || landOverride > bounds.max)
+      if (landOverridePolicy === 'block' && violated) {
+        return tf('quote.landOverrideBlocked', { container_type: displayContainerType(violated.container_type), min: violated.min, max: violated.max })
+      }
+    }
+    if (palletized && !palletSpecId) return t('quote.palletSpecRequired')
+    if (palletized && (!effectiveUnitsPerCartonForCost || effectiveUnitsPerCartonForCost <= 0)) return t('quote.palletNeedsCarton')
     const inputTons = parseNumber(fclTonsHint)
     const inputBags = parseNumber(fclBagsHint)
     if (mode === 'LCL' && (!inputTons || inputTons <= 0) && (!inputBags || inputBags <= 0)) {
@@ -532,10 +775,19 @@ function Quoter(props: { onOperationSaved?: () => void }) {
     selectedFactoryId,
     selectedFactoryCostPerTonUsed,
     fxRate,
-    marginPct,
+    pricingInputError,
+    needsDestinationPort,
+    destinationPortId,
+    palletized,
+    palletSpecId,
+    effectiveUnitsPerCartonForCost,
     mode,
     fclTonsHint,
     fclBagsHint,
+    landFreightOverridePerTon,
+    landFreightOverrideReason,
+    landOverridePolicy,
+    landOverrideBounds,
   ])
 
   const handleSaveDerivedPackaging = async () => {
@@ -642,6 +894,59 @@ function Quoter(props: { onOperationSaved?: () => void }) {
     return { id: created.id, name: created.name }
   }
 
+  const buildCustomLineOverrides = () => ({
+    override_unit_weight_kg: showCustomPackaging ? parseNumber(customUnitWeightKg) ?? undefined : undefined,
+    override_units_per_carton:
+      showCustomPackaging && customUnitsPerCarton.trim() !== ''
+        ? Number(customUnitsPerCarton)
+        : undefined,
+    override_bag_price_rmb:
+      showCustomPackaging && customBagPrice.trim() !== '' ? Number(customBagPrice) : undefined,
+    override_carton_price_rmb:
+      showCustomPackaging && customCartonPrice.trim() !== ''
+        ? Number(customCartonPrice)
+        : undefined,
+    override_inner_pack_type: showCustomPackaging ? customInnerPackType : undefined,
+    land_fee_override_rmb_per_ton:
+      landFreightOverridePerTon.trim() === '' ? undefined : Number(landFreightOverridePerTon),
+    land_fee_override_reason: landFreightOverridePerTon.trim() === '' ? undefined : landFreightOverrideReason.trim(),
+  })
+
+  const buildSingleQuoteInput = (): CalculateQuoteInput | null => {
+    if (!data || !selectedProduct || !selectedPackaging) return null
+    if (!selectedFactoryCostPerTonUsed || selectedFactoryCostPerTonUsed <= 0) {
+      setValidationError(t('quote.factoryCostRequired'))
+      return null
+    }
+    const fclTons = parseNumber(fclTonsHint)
+    const fclBags = parseNumber(fclBagsHint)
+    const resolvedQtyType = fclTons && fclTons > 0 ? 'tons' : fclBags && fclBags > 0 ? 'bags' : undefined
+    const resolvedQtyValue = fclTons && fclTons > 0 ? fclTons : fclBags ?? undefined
+    return {
+      data,
+      product_id: selectedProduct.id,
+      packaging_option_id: selectedPackaging.id,
+      factory_id: selectedFactoryId,
+      mode,
+      container_type: autoContainerPlan ? autoContainerPlan.mix[0].container_type : containerType,
+      fx_rate: Number(fxRate),
+      ...pricingInput,
+      qty_input_type: resolvedQtyType,
+      qty_input_value: resolvedQtyValue,
+      container_count: autoContainerPlan ? autoContainerPlan.container_count : undefined,
+      container_mix: autoContainerPlan ? autoContainerPlan.mix : undefined,
+      incoterm,
+      destination_port_id: needsDestinationPort ? destinationPortId : null,
+      sell_currency: sellCurrency,
+      pallet_spec_id: activePalletSpecId,
+      repeat_order: repeatOrder,
+      customer_id: selectedCustomerId || null,
+      extra_charge_ids: extraChargeIds,
+      land_override_policy: landOverridePolicy,
+      ...buildCustomLineOverrides(),
+    }
+  }
+
   const handleCalculate = async () => {
     if (disableReason) {
       setValidationError(disableReason)
@@ -650,57 +955,23 @@ function Quoter(props: { onOperationSaved?: () => void }) {
     if (!data || !selectedProduct || !selectedPackaging) return
 
     try {
-      const fx = Number(fxRate)
-      const margin = Number(marginPct)
-      const fclTons = parseNumber(fclTonsHint)
-      const fclBags = parseNumber(fclBagsHint)
-      if (!selectedFactoryCostPerTonUsed || selectedFactoryCostPerTonUsed <= 0) {
-        setValidationError(t('quote.factoryCostRequired'))
-        return
-      }
+      const quoteInput = buildSingleQuoteInput()
+      if (!quoteInput) return
       const customer = await ensureCustomer()
-      const resolvedContainerType = autoContainerPlan ? autoContainerPlan.type : containerType
-      const resolvedContainerCount = autoContainerPlan ? autoContainerPlan.count : undefined
-      const resolvedQtyType = fclTons && fclTons > 0 ? 'tons' : fclBags && fclBags > 0 ? 'bags' : undefined
-      const resolvedQtyValue = fclTons && fclTons > 0 ? fclTons : fclBags ?? undefined
-      const dataForCalc: AppData = {
-        ...data,
-        factory_product_costs: data.factory_product_costs.map((item) =>
-          item.factory_id === selectedFactoryId && item.product_id === selectedProduct.id
-            ? { ...item, cost_rmb_per_ton: selectedFactoryCostPerTonUsed }
-            : item,
-        ),
-      }
-      const result = calculateQuote({
-        data: dataForCalc,
-        product_id: selectedProduct.id,
-        packaging_option_id: selectedPackaging.id,
-        factory_id: selectedFactoryId,
-        mode,
-        container_type: resolvedContainerType,
-        fx_rate: fx,
-        margin_pct: margin,
-        qty_input_type: resolvedQtyType,
-        qty_input_value: resolvedQtyValue,
-        container_count: resolvedContainerCount,
-        override_unit_weight_kg: showCustomPackaging ? parseNumber(customUnitWeightKg) ?? undefined : undefined,
-        override_units_per_carton:
-          showCustomPackaging && customUnitsPerCarton.trim() !== ''
-            ? Number(customUnitsPerCarton)
-            : undefined,
-        override_bag_price_rmb:
-          showCustomPackaging && customBagPrice.trim() !== '' ? Number(customBagPrice) : undefined,
-        override_carton_price_rmb:
-          showCustomPackaging && customCartonPrice.trim() !== ''
-            ? Number(customCartonPrice)
-            : undefined,
-        override_inner_pack_type: showCustomPackaging ? customInnerPackType : undefined,
-        land_fee_override_rmb_per_ton:
-          landFreightOverridePerTon.trim() === '' ? undefined : Number(landFreightOverridePerTon),
-      })
+      const resolvedContainerType = quoteInput.container_type
+      const resolvedContainerCount = quoteInput.container_count
+      const result = calculateQuote({ ...quoteInput, trace: true })
+      // 保存完整输入（不含数据快照），供命令行按当前引擎重放核对。
+      const { data: _quoteData, ...savedQuoteInput } = quoteInput
 
       const shouldRunReveal = !quoteResult
       setQuoteResult(result)
+      setFillSuggestions(suggestFillQuantities(quoteInput, result))
+      setTargetSolveResult(null)
+      setSensitivityResult(null)
+      setFactoryComparison(null)
+      setShippingOptions(null)
+      setAlternativeOptionKeys([])
       setResultRevealActive(shouldRunReveal)
       setValidationError('')
       setExportMessage('')
@@ -715,10 +986,18 @@ function Quoter(props: { onOperationSaved?: () => void }) {
           mode,
           containerType: resolvedContainerType,
           containerCount: resolvedContainerCount ?? 1,
+          pricingFormulaMode,
+          pricingValue: result.summary.pricing_value,
+          incoterm,
+          destinationPortId: result.summary.destination_port_id,
+          sellCurrency: result.summary.sell_currency,
         },
         version_tag: quoteVersionTag || 'V1',
         summary: result.summary,
         warnings: result.warnings,
+        land_override: buildLandOverrideAudit(result, activeUserRole),
+        trace: result.trace,
+        quote_input: { ...savedQuoteInput, ...resolvedRoundingInput(result.summary) },
       })
       onOperationSaved?.()
     } catch (error) {
@@ -726,13 +1005,172 @@ function Quoter(props: { onOperationSaved?: () => void }) {
     }
   }
 
+  const handleSolveTarget = () => {
+    if (disableReason) {
+      setValidationError(disableReason)
+      return
+    }
+    const target = parseNumber(targetSellUsd)
+    if (!target || target <= 0) {
+      setValidationError(t('quote.target.priceRequired'))
+      return
+    }
+    try {
+      const quoteInput = buildSingleQuoteInput()
+      if (!quoteInput) return
+      const solved = solveTargetPrice({ quote: quoteInput, target_sell_usd_per_bag: target, solve_for: targetSolveFor })
+      setTargetSolveResult(solved)
+      setQuoteResult(solved.result)
+      setValidationError('')
+      setExportMessage('')
+    } catch (error) {
+      setValidationError(`${t('common.calcFailed')}: ${String(error)}`)
+    }
+  }
+
+  const handleRunSensitivity = () => {
+    if (disableReason) {
+      setValidationError(disableReason)
+      return
+    }
+    try {
+      const toAxis = (draft: SensitivityAxisDraft) => ({
+        key: draft.key,
+        values: buildAxisValues(Number(draft.from), Number(draft.to), Number(draft.steps)),
+      })
+      const quoteInput = buildSingleQuoteInput()
+      if (!quoteInput) return
+      setSensitivityResult(
+        runSensitivityGrid({ quote: quoteInput, row_axis: toAxis(sensitivityRowAxis), col_axis: toAxis(sensitivityColAxis) }),
+      )
+      setValidationError('')
+    } catch (error) {
+      setValidationError(`${t('common.calcFailed')}: ${String(error)}`)
+    }
+  }
+
+  const handleCompareFactories = () => {
+    if (disableReason) {
+      setValidationError(disableReason)
+      return
+    }
+    try {
+      const quoteInput = buildSingleQuoteInput()
+      if (!quoteInput) return
+      setFactoryComparison(compareFactories(quoteInput))
+      setValidationError('')
+    } catch (error) {
+      setValidationError(`${t('common.calcFailed')}: ${String(error)}`)
+    }
+  }
+
+  const handleCompareShippingOptions = () => {
+    if (disableReason) {
+      setValidationError(disableReason)
+      return
+    }
+    try {
+      const quoteInput = buildSingleQuoteInput()
+      if (!quoteInput) return
+      setShippingOptions(compareShippingOptions(quoteInput))
+      setAlternativeOptionKeys([])
+      setValidationError('')
+    } catch (error) {
+      setValidationError(`${t('common.calcFailed')}: ${String(error)}`)
+    }
+  }
+
+  const handleRunPriceLadder = () => {
+    if (disableReason) {
+      setValidationError(disableReason)
+      return
+    }
+    try {
+      const quoteInput = buildSingleQuoteInput()
+      if (!quoteInput) return
+      setPriceLadder(runPriceLadder(quoteInput, priceBreakUnit, parsePriceBreaks(priceBreakText, priceBreakUnit)))
+      setValidationError('')
+    } catch (error) {
+      setValidationError(`${t('common.calcFailed')}: ${String(error)}`)
+    }
+  }
+
+  const handleApplyFillSuggestion = (suggestion: FillSuggestion) => {
+    if (suggestion.kind === 'full_container') setMode('FCL')
+    handleFclBagsChange(String(suggestion.bags))
+    setValidationError('')
+  }
+
+  const toggleAlternativeOption = (key: ShippingOptionKey) => {
+    setAlternativeOptionKeys((prev) => (prev.includes(key) ? prev.filter((item) => item !== key) : [...prev, key]))
+  }
+
+  const sortedFactoryComparison = factoryComparison
+    ? [...factoryComparison].sort((a, b) => {
+        const rankA = factoryComparisonSort === 'net' ? a.rank_by_net : a.rank_by_gp
+        const rankB = factoryComparisonSort === 'net' ? b.rank_by_net : b.rank_by_gp
+        return (rankA ?? Number.POSITIVE_INFINITY) - (rankB ?? Number.POSITIVE_INFINITY)
+      })
+    : []
+
+  const formatSensitivityAxisValue = (key: SensitivityAxisKey, value: number) => {
+    if (key === 'factory_cost_pct') return `${value > 0 ? '+' : ''}${(value * 100).toFixed(1)}%`
+    if (key === 'pricing_value' && sensitivityResult && !['divide', 'multiply'].includes(sensitivityResult.base.summary.pricing_formula_mode)) {
+      return String(value)
+    }
+    if (key === 'pricing_value') return `${(value * 100).toFixed(2)}%`
+    return value.toFixed(4)
+  }
+
+  const handleExportSensitivity = async () => {
+    if (!sensitivityResult) return
+    const { row_axis: rowAxis, col_axis: colAxis, cells } = sensitivityResult
+    const payload = {
+      title: selectedProduct?.name ?? 'Quote',
+      rowAxisLabel: t(`quote.sensitivity.axis.${rowAxis.key}`),
+      colAxisLabel: t(`quote.sensitivity.axis.${colAxis.key}`),
+      rowLabels: rowAxis.values.map((value) => formatSensitivityAxisValue(rowAxis.key, value)),
+      colLabels: colAxis.values.map((value) => formatSensitivityAxisValue(colAxis.key, value)),
+      sheets: [
+        {
+          name: t('quote.sensitivity.metric.sell_usd_per_bag'),
+          numFmt: `"$"#,##0.${'0'.repeat(Math.max(1, sensitivityResult.base.summary.usd_decimals))}`,
+          cells: cells.map((row) => row.map((cell) => cell?.sell_usd_per_bag ?? null)),
+        },
+        {
+          name: t('quote.sensitivity.metric.gp_rmb_total'),
+          numFmt: '"¥"#,##0.00',
+          cells: cells.map((row) => row.map((cell) => cell?.gp_rmb_total ?? null)),
+        },
+      ],
+      meta: { exportedAtISO: new Date().toISOString() },
+    }
+    try {
+      // @ts-ignore
+      const result = (await window.ipcRenderer.invoke('export-sensitivity-grid-xlsx', payload)) as {
+        success: boolean
+        message?: string
+        filePath?: string
+      }
+      setExportMessage(
+        result.success
+          ? `${t('quote.exportDone')}: ${result.filePath ?? ''}`
+          : result.message ?? t('common.exportFailed'),
+      )
+    } catch (error) {
+      setExportMessage(`${t('common.exportFailed')}: ${String(error)}`)
+    }
+  }
+
   const polPortName = selectedProduct
     ? portsById.get(selectedProduct.pol_port_id)?.name ?? selectedProduct.pol_port_id
     : '-'
 
-  const handleExportExternalQuotation = async () => {
-    if (!data || !selectedProduct || !selectedPackaging || !quoteResult) return
+  const resolveDestinationPortName = (portId: string | null) =>
+    portId ? portsById.get(portId)?.name ?? portId : undefined
 
+  const describeCurrentPackaging = () => {
+    if (!selectedPackaging) return null
     const effectiveUnitsPerCarton = showCustomPackaging
       ? customUnitsPerCarton.trim() === ''
         ? selectedPackaging.units_per_carton
@@ -748,55 +1186,37 @@ function Quoter(props: { onOperationSaved?: () => void }) {
       effectiveUnitsPerCarton && effectiveUnitsPerCarton > 0
         ? `${effectiveUnitsPerCarton}${t('quote.unit.bagsPerCarton')}`
         : t('quote.noCarton')
-    const packagingText = `${selectedPackaging.name} | ${effectiveWeight}kg | ${cartonText} | ${INNER_PACK_LABELS[effectivePackType]}`
+    return {
+      packagingText: `${selectedPackaging.name} | ${effectiveWeight}kg | ${cartonText} | ${INNER_PACK_LABELS[effectivePackType]}`,
+      unitWeightKg: effectiveWeight,
+      unitsPerCarton: effectiveUnitsPerCarton ?? null,
+    }
+  }
 
+  const loadExportSettings = async () => {
+    if (!data) return {}
     // @ts-ignore
     const latestAppData = (await window.ipcRenderer.invoke('get-app-data')) as AppData
     const latestSettings = latestAppData?.settings ?? data.settings
     const activeUserProfile = latestSettings.user_profiles?.find(
       (profile) => profile.id === latestSettings.active_user_profile_id,
     )
-
-    const payload = {
-      quoteResult,
-      input: {
-        productName: selectedProduct.name,
-        name_en: selectedProduct.name_en,
-        productNameEn: selectedProduct.name_en,
-        description_en: selectedProduct.description_en,
-        descriptionEn: selectedProduct.description_en,
-        description: `${selectedProduct.name} ${packagingText}`,
-        packagingText,
-        quantityBagsInt: quoteResult.summary.bags_int,
-        containerType: quoteResult.summary.container_type,
-        containerCount: quoteResult.summary.container_count,
-        polPortName,
-        mode: quoteResult.summary.mode,
-        tons: quoteResult.summary.tons,
-        unitWeightKg: effectiveWeight,
-        unitsPerCarton: effectiveUnitsPerCarton ?? null,
-        image_path: selectedProduct.image_path,
-        customerName: customerName.trim() || undefined,
-      },
-      settings: {
-        quote_valid_days: latestSettings.quote_valid_days,
-        terms_template: latestSettings.terms_template,
-        companyName: activeUserProfile?.companyName,
-        address: activeUserProfile?.address,
-        postCode: activeUserProfile?.postCode,
-        tel: activeUserProfile?.tel,
-        whatsapp: activeUserProfile?.whatsapp,
-        wechat: activeUserProfile?.wechat,
-        email: activeUserProfile?.email,
-        export_from_name: activeUserProfile?.export_from_name,
-        user_name: activeUserProfile?.name,
-      },
-      meta: {
-        appVersion: APP_VERSION,
-        exportedAtISO: new Date().toISOString(),
-      },
+    return {
+      quote_valid_days: latestSettings.quote_valid_days,
+      terms_template: latestSettings.terms_template,
+      companyName: activeUserProfile?.companyName,
+      address: activeUserProfile?.address,
+      postCode: activeUserProfile?.postCode,
+      tel: activeUserProfile?.tel,
+      whatsapp: activeUserProfile?.whatsapp,
+      wechat: activeUserProfile?.wechat,
+      email: activeUserProfile?.email,
+      export_from_name: activeUserProfile?.export_from_name,
+      user_name: activeUserProfile?.name,
     }
+  }
 
+  const sendExternalQuotationExport = async (payload: Record<string, unknown>) => {
     try {
       // @ts-ignore
       const result = (await window.ipcRenderer.invoke(
@@ -823,6 +1243,259 @@ function Quoter(props: { onOperationSaved?: () => void }) {
     }
   }
 
+  const buildExternalExportLine = (
+    product: Product,
+    packaging: { packagingText: string; unitWeightKg: number; unitsPerCarton: number | null },
+    result: CalculateQuoteResult,
+  ) => ({
+    quoteResult: result,
+    input: {
+      productName: product.name,
+      name_en: product.name_en,
+      productNameEn: product.name_en,
+      description_en: product.description_en,
+      descriptionEn: product.description_en,
+      description: `${product.name} ${packaging.packagingText}`,
+      packagingText: packaging.packagingText,
+      quantityBagsInt: result.summary.bags_int,
+      containerType: result.summary.container_type,
+      containerCount: result.summary.container_count,
+      polPortName,
+      incoterm: result.summary.incoterm,
+      destinationPortName: resolveDestinationPortName(result.summary.destination_port_id),
+      mode: result.summary.mode,
+      tons: result.summary.tons,
+      unitWeightKg: packaging.unitWeightKg,
+      unitsPerCarton: packaging.unitsPerCarton,
+      image_path: product.image_path,
+      customerName: customerName.trim() || undefined,
+    },
+  })
+
+  const handleExportExternalQuotation = async () => {
+    if (!data || !selectedProduct || !selectedPackaging || !quoteResult) return
+
+    const packaging = describeCurrentPackaging()
+    if (!packaging) return
+
+    const alternatives = (shippingOptions ?? [])
+      .filter((option) => alternativeOptionKeys.includes(option.key) && option.result)
+      .map((option) => buildExternalExportLine(selectedProduct, packaging, option.result as CalculateQuoteResult))
+
+    const payload = {
+      ...buildExternalExportLine(selectedProduct, packaging, quoteResult),
+      alternatives,
+      settings: await loadExportSettings(),
+      meta: {
+        appVersion: APP_VERSION,
+        exportedAtISO: new Date().toISOString(),
+      },
+    }
+
+    await sendExternalQuotationExport(payload)
+  }
+
+  const handleExportPriceLadder = async () => {
+    if (!selectedProduct || !priceLadder) return
+    const packaging = describeCurrentPackaging()
+    if (!packaging) return
+    const priceBreaks = priceLadder.rows
+      .filter((row): row is typeof row & { result: CalculateQuoteResult } => row.result !== null)
+      .map((row) => buildExternalExportLine(selectedProduct, packaging, row.result))
+    if (priceBreaks.length === 0) return
+
+    await sendExternalQuotationExport({
+      ...priceBreaks[0],
+      priceBreaks,
+      settings: await loadExportSettings(),
+      meta: {
+        appVersion: APP_VERSION,
+        exportedAtISO: new Date().toISOString(),
+      },
+    })
+  }
+
+  const handleAddDocumentLine = () => {
+    if (disableReason) {
+      setValidationError(disableReason)
+      return
+    }
+    if (!selectedProduct || !selectedPackaging || !selectedFactoryCostPerTonUsed) return
+    const tons = parseNumber(fclTonsHint)
+    const bags = parseNumber(fclBagsHint)
+    const qtyType: QtyInputType | null = tons && tons > 0 ? 'tons' : bags && bags > 0 ? 'bags' : null
+    if (!qtyType) {
+      setValidationError(t('quote.document.qtyRequired'))
+      return
+    }
+    const packaging = describeCurrentPackaging()
+    if (!packaging) return
+
+    setDocumentLines((prev) => [
+      ...prev,
+      {
+        input: {
+          line_id: nextIdFromRows('line', prev.map((item) => ({ id: item.input.line_id }))),
+          product_id: selectedProduct.id,
+          packaging_option_id: selectedPackaging.id,
+          factory_id: selectedFactoryId,
+          qty_input_type: qtyType,
+          qty_input_value: qtyType === 'tons' ? (tons as number) : (bags as number),
+          pallet_spec_id: activePalletSpecId,
+          repeat_order: repeatOrder,
+          ...buildCustomLineOverrides(),
+        },
+        productName: selectedProduct.name,
+        productNameEn: selectedProduct.name_en,
+        descriptionEn: selectedProduct.description_en,
+        packagingText: packaging.packagingText,
+        unitWeightKg: packaging.unitWeightKg,
+        unitsPerCarton: packaging.unitsPerCarton,
+        imagePath: selectedProduct.image_path,
+        polPortName,
+      },
+    ])
+    setDocumentResult(null)
+    setValidationError('')
+  }
+
+  const handleRemoveDocumentLine = (lineId: string) => {
+    setDocumentLines((prev) => prev.filter((item) => item.input.line_id !== lineId))
+    setDocumentResult(null)
+  }
+
+  const handleCalculateDocument = async () => {
+    if (!data || documentLines.length === 0) return
+    const fx = parseNumber(fxRate)
+    if (!fx || fx <= 0) {
+      setValidationError(t('quote.fxMustPositive'))
+      return
+    }
+    if (pricingInputError) {
+      setValidationError(pricingInputError)
+      return
+    }
+    if (needsDestinationPort && !destinationPortId) {
+      setValidationError(t('quote.destinationRequired'))
+      return
+    }
+
+    try {
+      const customer = await ensureCustomer()
+      const documentInput: CalculateQuoteDocumentInput = {
+        data,
+        lines: documentLines.map((item) => item.input),
+        mode,
+        container_type: containerType,
+        fx_rate: fx,
+        ...pricingInput,
+        incoterm,
+        destination_port_id: needsDestinationPort ? destinationPortId : null,
+        sell_currency: sellCurrency,
+        customer_id: selectedCustomerId || null,
+        extra_charge_ids: extraChargeIds,
+        land_override_policy: landOverridePolicy,
+        trace: true,
+      }
+      const result = calculateQuoteDocument(documentInput)
+      const { data: _documentData, ...savedDocumentInput } = documentInput
+
+      setDocumentResult(result)
+      setValidationError('')
+      setExportMessage('')
+      // @ts-ignore
+      await window.ipcRenderer.invoke('save-calculation', {
+        input: {
+          customerId: customer.id ?? undefined,
+          customerName: customer.name,
+          productName: documentLines.map((item) => item.productName).join(' + '),
+          mode,
+          containerType,
+          containerCount: result.totals.container_count,
+          pricingFormulaMode,
+          pricingValue: usesMarginPct ? pricingInput.margin_pct : pricingInput.fixed_profit_value,
+          incoterm,
+          destinationPortId: needsDestinationPort ? destinationPortId : null,
+          sellCurrency: result.totals.sell_currency,
+          lines: documentLines.map((item) => ({
+            lineId: item.input.line_id,
+            productName: item.productName,
+            factoryId: item.input.factory_id,
+            packagingId: item.input.packaging_option_id,
+            qtyType: item.input.qty_input_type,
+            qtyValue: item.input.qty_input_value,
+          })),
+        },
+        version_tag: quoteVersionTag || 'V1',
+        summary: result.totals,
+        lines: result.lines.map((item) => ({
+          line_id: item.line_id,
+          summary: item.result.summary,
+          amount_usd: item.amount_usd,
+          warnings: item.result.warnings,
+          land_override: buildLandOverrideAudit(item.result, activeUserRole),
+          trace: item.result.trace,
+        })),
+        warnings: result.warnings,
+        document_input: { ...savedDocumentInput, ...resolvedRoundingInput(result.lines[0].result.summary) },
+      })
+      onOperationSaved?.()
+    } catch (error) {
+      setValidationError(`${t('common.calcFailed')}: ${String(error)}`)
+    }
+  }
+
+  const handleExportDocument = async () => {
+    if (!documentResult || documentResult.lines.length === 0) return
+    const draftsById = new Map(documentLines.map((item) => [item.input.line_id, item]))
+    const lines = documentResult.lines.map((line) => {
+      const draft = draftsById.get(line.line_id)
+      return {
+        quoteResult: line.result,
+        input: {
+          productName: draft?.productName ?? line.line_id,
+          name_en: draft?.productNameEn,
+          productNameEn: draft?.productNameEn,
+          description_en: draft?.descriptionEn,
+          descriptionEn: draft?.descriptionEn,
+          description: draft ? `${draft.productName} ${draft.packagingText}` : '',
+          packagingText: draft?.packagingText,
+          quantityBagsInt: line.result.summary.bags_int,
+          containerType: line.result.summary.container_type,
+          polPortName: draft?.polPortName,
+          incoterm: line.result.summary.incoterm,
+          destinationPortName: resolveDestinationPortName(line.result.summary.destination_port_id),
+          mode: line.result.summary.mode,
+          tons: line.result.summary.tons,
+          unitWeightKg: draft?.unitWeightKg,
+          unitsPerCarton: draft?.unitsPerCarton ?? null,
+          image_path: draft?.imagePath,
+          customerName: customerName.trim() || undefined,
+        },
+      }
+    })
+
+    const payload = {
+      quoteResult: lines[0].quoteResult,
+      input: lines[0].input,
+      lines,
+      totals: {
+        mode: documentResult.totals.mode,
+        tons: documentResult.totals.tons,
+        container_type: documentResult.totals.container_type,
+        container_count: documentResult.totals.container_count,
+        bags_int: documentResult.totals.bags_int,
+      },
+      settings: await loadExportSettings(),
+      meta: {
+        appVersion: APP_VERSION,
+        exportedAtISO: new Date().toISOString(),
+      },
+    }
+
+    await sendExternalQuotationExport(payload)
+  }
+
   if (loading) return <div style={{ color: 'var(--text)', padding: 24 }}>{t('common.loading')}</div>
   if (loadError) {
     return (
@@ -835,7 +1508,7 @@ function Quoter(props: { onOperationSaved?: () => void }) {
 
   const kpiCards: Array<{ title: string; value: number; unit: string; format: (value: number) => string }> = [
     {
-      title: t('quote.result.kpiSell'),
+      title: quoteResult ? `${t('quote.result.kpiSell')} ${quoteResult.summary.incoterm}` : t('quote.result.kpiSell'),
       value: quoteResult ? quoteResult.summary.sell_usd_per_bag : 0,
       unit: t('quote.unit.usdPerBag'),
       format: (value) => formatUsd(value),
@@ -860,34 +1533,16 @@ function Quoter(props: { onOperationSaved?: () => void }) {
     },
   ]
 
-  const criticalWarnings: string[] = (() => {
-    if (!quoteResult) return []
-    const elevatedWarnings = quoteResult.warnings.filter(
-      (warning) =>
-        warning.includes('国内段运费规则') &&
-        warning.includes('0 RMB/吨'),
-    )
-    const autoSwitchedToLcl = mode === 'FCL' && quoteResult.summary.mode === 'LCL'
-    if (autoSwitchedToLcl && quoteResult.breakdown.land_rmb_per_ton_used <= 0) {
-      return [
-        '系统已自动切换为 LCL，但当前国内段运费为 0 RMB/吨。请在 Admin 维护规则或输入覆盖值。',
-        ...elevatedWarnings,
-      ]
-    }
-    return elevatedWarnings
-  })()
-
-  const criticalWarningSet = new Set(criticalWarnings)
-  const displayWarnings: string[] = quoteResult
+  const criticalWarnings: QuoteWarning[] = quoteResult
+    ? quoteResult.warnings.filter((warning) => warning.severity === 'critical')
+    : []
+  // 自动切换 LCL 且国内运费为 0 时，关键提示已包含切换信息，不再重复显示。
+  const hasZeroLandAutoSwitch = criticalWarnings.some((warning) => warning.code === 'auto_lcl_zero_land_freight')
+  const displayWarnings: QuoteWarning[] = quoteResult
     ? quoteResult.warnings.filter(
         (warning) =>
-          !criticalWarningSet.has(warning) &&
-          !(
-            mode === 'FCL' &&
-            quoteResult.summary.mode === 'LCL' &&
-            quoteResult.breakdown.land_rmb_per_ton_used <= 0 &&
-            warning.includes('自动切换为 LCL')
-          ),
+          warning.severity !== 'critical' &&
+          !(hasZeroLandAutoSwitch && warning.code === 'auto_switched_to_lcl'),
       )
     : []
 
@@ -981,14 +1636,7 @@ function Quoter(props: { onOperationSaved?: () => void }) {
             <div className="status-box status-info" style={{ marginTop: 8 }}>
               {t('quote.costPerTon')}{formatRmb(selectedFactoryCostPerTonUsed, 2)}
               <span style={{ marginLeft: 8, color: 'var(--text-dim)' }}>
-                ({formatRmb(selectedFactoryCost, 2)}/
-                {selectedFactoryCostUnit === 'ton'
-                  ? t('quote.unit.ton')
-                  : selectedFactoryCostUnit === 'bag'
-                    ? t('quote.unit.bagShort')
-                    : selectedFactoryCostUnit === 'piece'
-                      ? t('quote.unit.piece')
-                      : t('quote.unit.carton')})
+                ({formatRmb(selectedFactoryCost, 2)}/{factoryCostUnitLabel(selectedFactoryCostUnit)})
               </span>
             </div>
           )}
@@ -1038,13 +1686,31 @@ function Quoter(props: { onOperationSaved?: () => void }) {
             <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 10 }}>
               <div><div style={fieldLabelStyle}>{t('quote.mode')}</div><Select className="ui-select" value={mode} onChange={(value) => setMode((value as Mode | null) ?? 'FCL')} data={[{ value: 'FCL', label: 'FCL' }, { value: 'LCL', label: 'LCL' }]} searchable={false} /></div>
               <div><div style={fieldLabelStyle}>{t('quote.container')}</div><Select className="ui-select" value={containerType} onChange={(value) => setContainerType((value as ContainerType | null) ?? '20GP')} data={[{ value: '20GP', label: '20FT' }, { value: '40HQ', label: '40HQ' }, { value: '40FT', label: '40FT' }]} searchable={false} /></div>
+              <div><div style={fieldLabelStyle}>{t('quote.incoterm')}</div><Select className="ui-select" value={incoterm} onChange={(value) => setIncoterm((value as Incoterm | null) ?? 'FOB')} data={['EXW', 'FOB', 'CFR', 'CIF']} searchable={false} /></div>
+              <div><div style={fieldLabelStyle}>{t('quote.destinationPort')}</div><Select className="ui-select" value={destinationPortId || null} onChange={(value) => setDestinationPortId(value ?? '')} data={destinationPortOptions} placeholder={needsDestinationPort ? t('quote.selectDestinationPort') : t('quote.destinationNotNeeded')} disabled={!needsDestinationPort} searchable clearable /></div>
               <div><div style={fieldLabelStyle}>{t('quote.fxRate')}</div><NumberInput className="ui-input" value={toMantineNumber(fxRate)} onChange={(value) => setFxRate(toInputString(value))} hideControls /></div>
-              <div><div style={fieldLabelStyle}>{t('quote.margin')}</div><NumberInput className="ui-input" value={toMantineNumber(marginPct)} onChange={(value) => setMarginPct(toInputString(value))} hideControls /></div>
+              <div><div style={fieldLabelStyle}>{t('quote.sellCurrency')}</div><Select className="ui-select" value={sellCurrency} onChange={(value) => setSellCurrency(value ?? BASE_SELL_CURRENCY)} data={sellCurrencyOptions} searchable={false} allowDeselect={false} /></div>
+              <div><div style={fieldLabelStyle}>{t('quote.commission')}</div><div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 6 }}><Select className="ui-select" value={commissionBasis} onChange={(value) => setCommissionBasis((value as PriceAdjustmentBasis | '' | null) ?? '')} data={priceAdjustmentOptions} searchable={false} allowDeselect={false} /><NumberInput className="ui-input" value={toMantineNumber(commissionValue)} onChange={(value) => setCommissionValue(toInputString(value))} disabled={!commissionBasis} hideControls /></div></div>
+              <div><div style={fieldLabelStyle}>{t('quote.discount')}</div><div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 6 }}><Select className="ui-select" value={discountBasis} onChange={(value) => setDiscountBasis((value as PriceAdjustmentBasis | '' | null) ?? '')} data={priceAdjustmentOptions} searchable={false} allowDeselect={false} /><NumberInput className="ui-input" value={toMantineNumber(discountValue)} onChange={(value) => setDiscountValue(toInputString(value))} disabled={!discountBasis} hideControls /></div></div>
+              <div><div style={fieldLabelStyle}>{t('quote.palletized')}</div><Switch checked={palletized} onChange={(event) => setPalletized(event.currentTarget.checked)} mt={8} /></div>
+              <div><div style={fieldLabelStyle}>{t('quote.palletSpec')}</div><Select className="ui-select" value={palletSpecId || null} onChange={(value) => setPalletSpecId(value ?? '')} data={palletSpecOptions} placeholder={t('quote.selectPalletSpec')} disabled={!palletized} searchable={false} allowDeselect={false} /></div>
+              <div><div style={fieldLabelStyle}>{t('quote.repeatOrder')}</div><Switch checked={repeatOrder} onChange={(event) => setRepeatOrder(event.currentTarget.checked)} mt={8} /></div>
+              <div style={{ gridColumn: '1 / -1' }}><div style={fieldLabelStyle}>{t('quote.extraCharges')}</div><MultiSelect className="ui-select" value={selectedExtraChargeIds} onChange={setExtraChargeIds} data={extraChargeOptions} placeholder={extraChargeOptions.length ? undefined : t('quote.noExtraCharges')} disabled={extraChargeOptions.length === 0} clearable /></div>
+              <div><div style={fieldLabelStyle}>{t('quote.pricingFormula')}</div><Select className="ui-select" value={pricingFormulaMode} onChange={(value) => setPricingFormulaMode((value as PricingFormulaMode | null) ?? 'divide')} data={Object.entries(PRICING_FORMULA_LABELS).map(([value, label]) => ({ value, label }))} searchable={false} allowDeselect={false} /></div>
+              {usesMarginPct ? (
+                <div><div style={fieldLabelStyle}>{pricingFormulaMode === 'multiply' ? t('quote.markup') : t('quote.margin')}</div><NumberInput className="ui-input" value={toMantineNumber(marginPct)} onChange={(value) => setMarginPct(toInputString(value))} hideControls /></div>
+              ) : (
+                <div><div style={fieldLabelStyle}>{PRICING_FORMULA_LABELS[pricingFormulaMode]}</div><NumberInput className="ui-input" value={toMantineNumber(fixedProfitValue)} onChange={(value) => setFixedProfitValue(toInputString(value))} hideControls /></div>
+              )}
             </div>
 
             <div style={{ marginTop: 10 }}>
               <div style={fieldLabelStyle}>{t('quote.landFreight')}</div>
-              <NumberInput className="ui-input" value={toMantineNumber(landFreightOverridePerTon)} onChange={(value) => setLandFreightOverridePerTon(toInputString(value))} hideControls placeholder={defaultLandFreightPerTon !== null ? `${t('quote.defaultValue')} ${defaultLandFreightPerTon}` : t('quote.unconfiguredDefaultZero')} />
+              <NumberInput className="ui-input" value={toMantineNumber(landFreightOverridePerTon)} onChange={(value) => setLandFreightOverridePerTon(toInputString(value))} hideControls placeholder={landFreightRule?.basis === 'per_trip' ? tf('quote.defaultPerTrip', { rate: landFreightRule.rmb_per_trip ?? 0 }) : defaultLandFreightPerTon !== null ? `${t('quote.defaultValue')} ${defaultLandFreightPerTon}` : t('quote.unconfiguredDefaultZero')} />
+              {landOverrideBounds.length > 0 && <div style={{ ...dimTextStyle, fontSize: 12, marginTop: 4 }}>{landOverrideBounds.map((bounds) => tf('quote.landOverrideRange', { container_type: displayContainerType(bounds.container_type), min: bounds.min, max: bounds.max })).join('；')}</div>}
+              {landFreightOverridePerTon.trim() !== '' && (
+                <div style={{ marginTop: 8 }}><div style={fieldLabelStyle}>{t('quote.landOverrideReason')}</div><input type="text" value={landFreightOverrideReason} onChange={(e) => setLandFreightOverrideReason(e.target.value)} placeholder={t('quote.landOverrideReasonPlaceholder')} className="ui-input" style={{ width: '100%' }} /></div>
+              )}
             </div>
           </div>
 
@@ -1055,6 +1721,90 @@ function Quoter(props: { onOperationSaved?: () => void }) {
           </div>
           {validationError && <div className="status-box status-error" style={{ marginTop: 10 }}>{validationError}</div>}
           {exportMessage && <div className="status-box status-info" style={{ marginTop: 10 }}>{exportMessage}</div>}
+
+          <div className="quote-transport-block" style={{ marginTop: 16, paddingTop: 12 }}>
+            <div style={{ ...sectionTitleStyle, marginBottom: 10 }}>{t('quote.target.title')}</div>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 10 }}>
+              <div><div style={fieldLabelStyle}>{t('quote.target.price')}</div><NumberInput className="ui-input" value={toMantineNumber(targetSellUsd)} onChange={(value) => setTargetSellUsd(toInputString(value))} hideControls /></div>
+              <div><div style={fieldLabelStyle}>{t('quote.target.solveFor')}</div><Select className="ui-select" value={targetSolveFor} onChange={(value) => setTargetSolveFor((value as TargetSolveParameter | null) ?? 'pricing_value')} data={[{ value: 'pricing_value', label: t('quote.target.pricingValue') }, { value: 'factory_cost_per_ton', label: t('quote.target.factoryCost') }, { value: 'land_freight_per_ton', label: t('quote.target.landFreight') }]} searchable={false} allowDeselect={false} /></div>
+            </div>
+            <div style={{ marginTop: 10 }}>
+              <Button className="btn-outline-neon" variant="outline" onClick={handleSolveTarget} disabled={Boolean(disableReason)}>{t('quote.target.solve')}</Button>
+            </div>
+          </div>
+
+          <div className="quote-transport-block" style={{ marginTop: 16, paddingTop: 12 }}>
+            <div style={{ ...sectionTitleStyle, marginBottom: 10 }}>{t('quote.sensitivity.title')}</div>
+            {([
+              ['row', sensitivityRowAxis, setSensitivityRowAxis],
+              ['col', sensitivityColAxis, setSensitivityColAxis],
+            ] as const).map(([side, draft, setDraft]) => (
+              <div key={side} style={{ display: 'grid', gridTemplateColumns: '1.4fr 1fr 1fr 0.7fr', gap: 10, marginBottom: 10 }}>
+                <div><div style={fieldLabelStyle}>{t(`quote.sensitivity.${side}Axis`)}</div><Select className="ui-select" value={draft.key} onChange={(value) => setDraft(SENSITIVITY_AXIS_DEFAULTS[(value as SensitivityAxisKey | null) ?? draft.key])} data={(Object.keys(SENSITIVITY_AXIS_DEFAULTS) as SensitivityAxisKey[]).map((key) => ({ value: key, label: t(`quote.sensitivity.axis.${key}`) }))} searchable={false} allowDeselect={false} /></div>
+                <div><div style={fieldLabelStyle}>{t('quote.sensitivity.from')}</div><NumberInput className="ui-input" value={toMantineNumber(draft.from)} onChange={(value) => setDraft({ ...draft, from: toInputString(value) })} hideControls /></div>
+                <div><div style={fieldLabelStyle}>{t('quote.sensitivity.to')}</div><NumberInput className="ui-input" value={toMantineNumber(draft.to)} onChange={(value) => setDraft({ ...draft, to: toInputString(value) })} hideControls /></div>
+                <div><div style={fieldLabelStyle}>{t('quote.sensitivity.steps')}</div><NumberInput className="ui-input" value={toMantineNumber(draft.steps)} onChange={(value) => setDraft({ ...draft, steps: toInputString(value) })} min={1} max={25} hideControls /></div>
+              </div>
+            ))}
+            <div style={{ display: 'flex', gap: 8 }}>
+              <Button className="btn-outline-neon" variant="outline" onClick={handleRunSensitivity} disabled={Boolean(disableReason)}>{t('quote.sensitivity.run')}</Button>
+              <Button className="btn-outline-neon" variant="outline" onClick={() => void handleExportSensitivity()} disabled={!sensitivityResult}>{t('quote.sensitivity.export')}</Button>
+            </div>
+          </div>
+
+          <div className="quote-transport-block" style={{ marginTop: 16, paddingTop: 12 }}>
+            <div style={{ ...sectionTitleStyle, marginBottom: 10 }}>{t('quote.shippingOptions.title')}</div>
+            <div style={{ ...dimTextStyle, fontSize: 12, marginBottom: 10 }}>{t('quote.shippingOptions.hint')}</div>
+            <Button className="btn-outline-neon" variant="outline" onClick={handleCompareShippingOptions} disabled={Boolean(disableReason)}>{t('quote.shippingOptions.run')}</Button>
+          </div>
+
+          <div className="quote-transport-block" style={{ marginTop: 16, paddingTop: 12 }}>
+            <div style={{ ...sectionTitleStyle, marginBottom: 10 }}>{t('quote.priceLadder.title')}</div>
+            <div style={{ ...dimTextStyle, fontSize: 12, marginBottom: 10 }}>{t('quote.priceLadder.hint')}</div>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 2fr', gap: 10, marginBottom: 10 }}>
+              <div><div style={fieldLabelStyle}>{t('quote.priceLadder.unit')}</div><Select className="ui-select" value={priceBreakUnit} onChange={(value) => setPriceBreakUnit((value as PriceBreakUnit | null) ?? 'containers')} data={(['containers', 'tons', 'bags'] as PriceBreakUnit[]).map((unit) => ({ value: unit, label: t(`quote.priceLadder.units.${unit}`) }))} searchable={false} allowDeselect={false} /></div>
+              <div><div style={fieldLabelStyle}>{t('quote.priceLadder.quantities')}</div><input type="text" value={priceBreakText} onChange={(e) => setPriceBreakText(e.target.value)} className="ui-input" style={{ width: '100%' }} /></div>
+            </div>
+            <div style={{ display: 'flex', gap: 8 }}>
+              <Button className="btn-outline-neon" variant="outline" onClick={handleRunPriceLadder} disabled={Boolean(disableReason)}>{t('quote.priceLadder.run')}</Button>
+              <Button className="btn-outline-neon" variant="outline" onClick={() => void handleExportPriceLadder()} disabled={!priceLadder?.rows.some((row) => row.result)}>{t('quote.priceLadder.export')}</Button>
+            </div>
+          </div>
+
+          <div className="quote-transport-block" style={{ marginTop: 16, paddingTop: 12 }}>
+            <div style={{ ...sectionTitleStyle, marginBottom: 10 }}>{t('quote.factoryCompare.title')}</div>
+            <div style={{ ...dimTextStyle, fontSize: 12, marginBottom: 10 }}>{t('quote.factoryCompare.hint')}</div>
+            <Button className="btn-outline-neon" variant="outline" onClick={handleCompareFactories} disabled={Boolean(disableReason)}>{t('quote.factoryCompare.run')}</Button>
+          </div>
+
+          <div className="quote-transport-block" style={{ marginTop: 16, paddingTop: 12 }}>
+            <div style={{ ...sectionTitleStyle, marginBottom: 10 }}>{t('quote.document.title')}</div>
+            {documentLines.length === 0 ? (
+              <div style={dimTextStyle}>{t('quote.document.empty')}</div>
+            ) : (
+              <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <tbody>
+                  {documentLines.map((line) => (
+                    <tr key={line.input.line_id}>
+                      <td>{line.productName}</td>
+                      <td style={dimTextStyle}>{line.packagingText}</td>
+                      <td style={{ textAlign: 'right', whiteSpace: 'nowrap' }}>
+                        {line.input.qty_input_value} {line.input.qty_input_type === 'tons' ? t('quote.unit.ton') : t('quote.unit.bag')}
+                      </td>
+                      <td style={{ textAlign: 'right' }}>
+                        <Button className="btn-outline-neon" variant="outline" size="xs" onClick={() => handleRemoveDocumentLine(line.input.line_id)}>{t('quote.document.removeLine')}</Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            <div style={{ marginTop: 10, display: 'flex', flexWrap: 'wrap', gap: 10 }}>
+              <Button className="btn-outline-neon" variant="outline" onClick={handleAddDocumentLine} disabled={Boolean(disableReason)}>{t('quote.document.addLine')}</Button>
+              <Button className="btn-primary" onClick={handleCalculateDocument} disabled={documentLines.length === 0}>{t('quote.document.calc')}</Button>
+              <Button className="btn-primary" onClick={handleExportDocument} disabled={!documentResult}>{t('quote.document.export')}</Button>
+            </div>
+          </div>
         </div>
 
         <div className="panel glass-card quote-panel">
@@ -1076,12 +1826,23 @@ function Quoter(props: { onOperationSaved?: () => void }) {
             {quoteResult ? (
               <div className={`summary-box-grid ${resultRevealActive ? 'result-reveal-summary' : ''}`}>
                 <div className="summary-box-item"><div className="summary-box-label">{t('quote.result.mode')}</div><div className="summary-box-value">{quoteResult.summary.mode}</div></div>
+                <div className="summary-box-item"><div className="summary-box-label">{t('quote.result.pricingFormula')}</div><div className="summary-box-value">{PRICING_FORMULA_LABELS[quoteResult.summary.pricing_formula_mode]} = {quoteResult.summary.pricing_value}</div></div>
+                <div className="summary-box-item"><div className="summary-box-label">{t('quote.result.incoterm')}</div><div className="summary-box-value">{quoteResult.summary.destination_port_id ? `${quoteResult.summary.incoterm} ${resolveDestinationPortName(quoteResult.summary.destination_port_id)}` : quoteResult.summary.incoterm}</div></div>
                 <div className="summary-box-item"><div className="summary-box-label">{t('quote.result.container')}</div><div className="summary-box-value">{displayContainerType(quoteResult.summary.container_type)}</div></div>
                 <div className="summary-box-item"><div className="summary-box-label">柜数量</div><div className="summary-box-value">{quoteResult.summary.container_count}</div></div>
-                <div className="summary-box-item"><div className="summary-box-label">自动配柜明细</div><div className="summary-box-value">{`${quoteResult.summary.container_count} x ${displayContainerType(quoteResult.summary.container_type)}`}</div></div>
+                <div className="summary-box-item"><div className="summary-box-label">自动配柜明细</div><div className="summary-box-value">{quoteResult.summary.container_mix.length > 0 ? formatContainerMix(quoteResult.summary.container_mix) : `${quoteResult.summary.container_count} x ${displayContainerType(quoteResult.summary.container_type)}`}</div></div>
                 <div className="summary-box-item"><div className="summary-box-label">{t('quote.result.tons')}</div><div className="summary-box-value">{quoteResult.summary.tons.toFixed(4)}</div></div>
                 <div className="summary-box-item"><div className="summary-box-label">{t('quote.result.bags')}</div><div className="summary-box-value">{quoteResult.summary.bags_int}</div></div>
+                <div className="summary-box-item"><div className="summary-box-label">{t('quote.result.rounding')}</div><div className="summary-box-value">{ROUNDING_POLICY_LABELS[quoteResult.summary.rounding_policy]}：{formatCurrency(quoteResult.summary.sell_price_per_bag_raw, quoteResult.summary.sell_currency, 6)} → {formatCurrency(quoteResult.summary.sell_price_per_bag, quoteResult.summary.sell_currency, quoteResult.summary.sell_currency_decimals)}</div></div>
+                {quoteResult.summary.sell_currency !== BASE_SELL_CURRENCY && (
+                  <div className="summary-box-item"><div className="summary-box-label">{t('quote.result.sellCurrency')}</div><div className="summary-box-value">{tf('quote.result.sellCurrencyValue', { code: quoteResult.summary.sell_currency, rate: quoteResult.summary.sell_currency_rate_to_rmb, amount: formatCurrency(quoteResult.summary.amount, quoteResult.summary.sell_currency, quoteResult.summary.sell_currency_decimals) })}</div></div>
+                )}
+                <div className="summary-box-item"><div className="summary-box-label">{t('quote.result.amountUsd')}</div><div className="summary-box-value">{formatUsd(quoteResult.summary.amount_usd, quoteResult.summary.usd_decimals)}</div></div>
                 <div className="summary-box-item"><div className="summary-box-label">{t('quote.result.cartons')}</div><div className="summary-box-value">{quoteResult.summary.cartons_int}</div></div>
+                <div className="summary-box-item"><div className="summary-box-label">{t('quote.result.totalCbm')}</div><div className="summary-box-value">{quoteResult.summary.total_cbm === null ? '-' : quoteResult.summary.total_cbm.toFixed(3)}</div></div>
+                <div className="summary-box-item"><div className="summary-box-label">{t('quote.result.containerLimit')}</div><div className="summary-box-value">{tf('quote.result.containerLimitValue', { limit: t(`quote.result.containerLimitBy.${quoteResult.summary.container_limit}`), max_tons: quoteResult.summary.container_max_tons.toFixed(2) })}</div></div>
+                {quoteResult.summary.container_utilization.length > 0 && <div className="summary-box-item"><div className="summary-box-label">{t('quote.result.utilization')}</div><div className="summary-box-value">{quoteResult.summary.container_utilization.map((value) => `${(value * 100).toFixed(1)}%`).join(' / ')}</div></div>}
+                {quoteResult.summary.pallet_spec_id && <div className="summary-box-item"><div className="summary-box-label">{t('quote.result.pallets')}</div><div className="summary-box-value">{tf('quote.result.palletsValue', { pallets: quoteResult.summary.pallets_int, per_container: quoteResult.summary.pallets_per_container ?? '-' })}</div></div>}
                 <div className="summary-box-item"><div className="summary-box-label">{t('quote.result.netCost')}</div><div className="summary-box-value">{formatRmb(quoteResult.summary.net_rmb_per_bag)} / {t('quote.unit.bag')}</div></div>
                 <div className="summary-box-item"><div className="summary-box-label">{t('quote.result.bagSource')}</div><div className="summary-box-value">{sourceLabel(quoteResult.summary.bag_price_source)}</div></div>
                 <div className="summary-box-item"><div className="summary-box-label">{t('quote.result.cartonSource')}</div><div className="summary-box-value">{sourceLabel(quoteResult.summary.carton_price_source)}</div></div>
@@ -1108,29 +1869,315 @@ function Quoter(props: { onOperationSaved?: () => void }) {
                   style={{ width: '100%', borderCollapse: 'collapse' }}
                 >
                   <tbody>
+                    <tr><td>{t('quote.result.factoryCost')}</td><td style={{ textAlign: 'right' }}>{tf('quote.result.factoryCostValue', { value: formatRmb(quoteResult.breakdown.factory_cost_value, 2), unit: factoryCostUnitLabel(quoteResult.breakdown.factory_cost_unit), per_ton: formatRmb(quoteResult.breakdown.factory_cost_rmb_per_ton, 2) })}</td></tr>
                     <tr><td>{t('quote.result.raw')}</td><td style={{ textAlign: 'right' }}>{formatRmb(quoteResult.breakdown.raw_rmb_per_bag)}</td></tr>
                     <tr><td>{t('quote.result.bagMat')}</td><td style={{ textAlign: 'right' }}>{formatRmb(quoteResult.breakdown.bag_mat_rmb_per_bag)}</td></tr>
                     <tr><td>{t('quote.result.carton')}</td><td style={{ textAlign: 'right' }}>{formatRmb(quoteResult.breakdown.carton_rmb_per_bag)}</td></tr>
+                    {quoteResult.summary.pallet_spec_id && <tr><td>{t('quote.result.pallet')}</td><td style={{ textAlign: 'right' }}>{formatRmb(quoteResult.breakdown.pallet_rmb_per_bag)}</td></tr>}
+                    {quoteResult.breakdown.setup_total_rmb > 0 && <tr><td>{t('quote.result.setup')}</td><td style={{ textAlign: 'right' }}>{tf('quote.result.setupValue', { per_bag: formatRmb(quoteResult.breakdown.setup_rmb_per_bag), total: formatRmb(quoteResult.breakdown.setup_total_rmb) })}</td></tr>}
+                    {quoteResult.breakdown.land_freight_legs.map((leg) => (
+                      <tr key={`land-${leg.container_type}`}><td>{leg.zone ? tf('quote.result.landLegZone', { container_type: leg.container_type, zone: leg.zone }) : tf('quote.result.landLeg', { container_type: leg.container_type })}</td><td style={{ textAlign: 'right' }}>{tf(`quote.result.landLegValue.${leg.basis}`, { rate: formatRmb(leg.rate_rmb, 2), quantity: leg.basis === 'per_trip' ? Number(leg.quantity.toFixed(3)) : leg.quantity.toFixed(3), total: formatRmb(leg.total_rmb, 2) })}</td></tr>
+                    ))}
+                    {quoteResult.breakdown.land_override && <tr><td>{t('quote.result.landOverride')}</td><td style={{ textAlign: 'right' }}>{tf('quote.result.landOverrideValue', { rate: formatRmb(quoteResult.breakdown.land_override.rmb_per_ton, 2), reason: quoteResult.breakdown.land_override.reason ?? '-' })}</td></tr>}
                     <tr><td>国内段运费（每吨）</td><td style={{ textAlign: 'right' }}>{formatRmb(quoteResult.breakdown.land_rmb_per_ton_used, 2)}</td></tr>
                     <tr><td>国内段运费（每袋）</td><td style={{ textAlign: 'right' }}>{formatRmb(quoteResult.breakdown.land_rmb_per_bag)}</td></tr>
                     <tr><td>{t('quote.result.port')}</td><td style={{ textAlign: 'right' }}>{formatRmb(quoteResult.breakdown.port_rmb_per_bag)}</td></tr>
+                    {quoteResult.summary.lcl_port_charge && <tr><td>{t('quote.result.lclChargeable')}</td><td style={{ textAlign: 'right' }}>{tf('quote.result.lclChargeableValue', { qty: quoteResult.summary.lcl_port_charge.chargeable_qty.toFixed(3), unit: t(`quote.result.lclUnit.${quoteResult.summary.lcl_port_charge.basis}`), total: formatRmb(quoteResult.summary.lcl_port_charge.total_rmb, 2) })}</td></tr>}
+                    {quoteResult.breakdown.extra_charges.map((charge) => (
+                      <tr key={charge.id}><td>{tf('quote.result.extraCharge', { name: charge.name, basis: t(`quote.extraChargeBasis.${charge.basis}`) })}</td><td style={{ textAlign: 'right' }}>{tf('quote.result.extraChargeValue', { per_bag: formatRmb(charge.rmb_per_bag), total: formatRmb(charge.total_rmb, 2) })}</td></tr>
+                    ))}
                     <tr><td>{t('quote.result.domestic')}</td><td style={{ textAlign: 'right' }}>{formatRmb(quoteResult.breakdown.domestic_total_rmb_per_bag)}</td></tr>
-                    <tr><td>{t('quote.result.rebate')}</td><td style={{ textAlign: 'right' }}>-{formatRmb(quoteResult.breakdown.rebate_rmb_per_bag)}</td></tr>
+                    <tr><td>{t('quote.result.purchaseExVat')}</td><td style={{ textAlign: 'right' }}>{formatRmb(quoteResult.breakdown.purchase_ex_vat_rmb_per_bag)}</td></tr>
+                    <tr><td>{t('quote.result.purchaseVat')}</td><td style={{ textAlign: 'right' }}>{formatRmb(quoteResult.breakdown.purchase_vat_rmb_per_bag)}</td></tr>
+                    <tr><td>{quoteResult.breakdown.rebate_mode === 'simplified' ? t('quote.result.rebateSimplified') : t('quote.result.rebate')}</td><td style={{ textAlign: 'right' }}>-{formatRmb(quoteResult.breakdown.rebate_rmb_per_bag)}</td></tr>
                     <tr><td>{t('quote.result.net')}</td><td style={{ textAlign: 'right' }}>{formatRmb(quoteResult.breakdown.net_rmb_per_bag)}</td></tr>
+                    {quoteResult.summary.destination_port_id && (
+                      <>
+                        <tr><td>{t('quote.result.fobPrice')}</td><td style={{ textAlign: 'right' }}>{formatUsd(quoteResult.summary.fob_usd_per_bag)}</td></tr>
+                        <tr><td>{t('quote.result.oceanFreight')}</td><td style={{ textAlign: 'right' }}>{formatUsd(quoteResult.breakdown.ocean_freight_usd_per_bag)}</td></tr>
+                      </>
+                    )}
+                    {quoteResult.summary.incoterm === 'CIF' && (
+                      <tr><td>{t('quote.result.insurance')}</td><td style={{ textAlign: 'right' }}>{formatUsd(quoteResult.breakdown.insurance_usd_per_bag)}</td></tr>
+                    )}
+                    {quoteResult.summary.commission && (
+                      <tr><td>{t('quote.result.commission')}</td><td style={{ textAlign: 'right' }}>{formatUsd(quoteResult.breakdown.commission_usd_per_bag)}</td></tr>
+                    )}
+                    {quoteResult.summary.discount && (
+                      <>
+                        <tr><td>{t('quote.result.listPrice')}</td><td style={{ textAlign: 'right' }}>{formatUsd(quoteResult.breakdown.list_usd_per_bag)}</td></tr>
+                        <tr><td>{t('quote.result.discount')}</td><td style={{ textAlign: 'right' }}>-{formatUsd(quoteResult.breakdown.discount_usd_per_bag)}</td></tr>
+                      </>
+                    )}
                   </tbody>
                 </table>
+                {quoteResult.trace && (
+                  <div style={{ marginTop: 10 }}>
+                    <Button className="btn-outline-neon" variant="outline" size="xs" onClick={() => setShowTrace((prev) => !prev)}>{showTrace ? t('quote.trace.hide') : t('quote.trace.show')}</Button>
+                    {showTrace && (
+                      <div style={{ overflowX: 'auto', marginTop: 8 }}>
+                        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+                          <thead>
+                            <tr><th style={{ textAlign: 'left' }}>{t('quote.trace.step')}</th><th style={{ textAlign: 'left' }}>{t('quote.trace.formula')}</th><th style={{ textAlign: 'left' }}>{t('quote.trace.inputs')}</th><th style={{ textAlign: 'left' }}>{t('quote.trace.records')}</th><th style={{ textAlign: 'right' }}>{t('quote.trace.result')}</th></tr>
+                          </thead>
+                          <tbody>
+                            {quoteResult.trace.map((step, index) => (
+                              <tr key={`${step.key}-${index}`}>
+                                <td>{t(`quote.trace.steps.${step.key}`)}</td>
+                                <td style={{ fontFamily: 'monospace' }}>{step.formula}</td>
+                                <td style={dimTextStyle}>{Object.entries(step.inputs).map(([key, value]) => `${key}=${formatTraceValue(value)}`).join(', ')}</td>
+                                <td style={dimTextStyle}>{step.record_ids.join(', ') || '-'}</td>
+                                <td style={{ textAlign: 'right' }}>{formatTraceValue(step.result)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+                  </div>
+                )}
               </>
             ) : (
               <div style={dimTextStyle}>{t('common.noResult')}</div>
             )}
           </div>
 
+          {shippingOptions && (
+            <div className="subpanel glass-card quote-result-card" style={{ padding: 12, marginTop: 12 }}>
+              <div style={{ fontWeight: 700, marginBottom: 8 }}>{t('quote.shippingOptions.resultTitle')}</div>
+              <div style={{ overflowX: 'auto' }}>
+                <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                  <thead>
+                    <tr>
+                      <th />
+                      {shippingOptions.map((option) => (
+                        <th key={option.key} style={{ textAlign: 'right' }}>{option.key === 'LCL' ? 'LCL' : displayContainerType(option.key)}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    <tr><td>{t('quote.result.kpiSell')}</td>{shippingOptions.map((option) => <td key={option.key} style={{ textAlign: 'right' }}>{option.result ? formatUsd(option.result.summary.sell_usd_per_bag) : '-'}</td>)}</tr>
+                    <tr><td>{t('quote.shippingOptions.containerCount')}</td>{shippingOptions.map((option) => <td key={option.key} style={{ textAlign: 'right' }}>{option.result && option.mode === 'FCL' ? option.result.summary.container_count : '-'}</td>)}</tr>
+                    <tr><td>{t('quote.shippingOptions.utilization')}</td>{shippingOptions.map((option) => <td key={option.key} style={{ textAlign: 'right' }}>{option.utilization !== null ? `${(option.utilization * 100).toFixed(1)}%` : '-'}</td>)}</tr>
+                    <tr><td>{t('quote.result.bags')}</td>{shippingOptions.map((option) => <td key={option.key} style={{ textAlign: 'right' }}>{option.result ? option.result.summary.bags_int : '-'}</td>)}</tr>
+                    <tr><td>{t('quote.shippingOptions.amountUsd')}</td>{shippingOptions.map((option) => <td key={option.key} style={{ textAlign: 'right' }}>{option.result ? formatUsd(option.result.summary.amount_usd, option.result.summary.usd_decimals) : '-'}</td>)}</tr>
+                    <tr><td>{t('quote.factoryCompare.gpTotal')}</td>{shippingOptions.map((option) => <td key={option.key} style={{ textAlign: 'right' }}>{option.result ? formatRmb(option.result.summary.gp_rmb_total, 2) : '-'}</td>)}</tr>
+                    <tr>
+                      <td />
+                      {shippingOptions.map((option) => (
+                        <td key={option.key} style={{ textAlign: 'right' }}>
+                          <Button className="btn-outline-neon" variant={alternativeOptionKeys.includes(option.key) ? 'filled' : 'outline'} size="xs" onClick={() => toggleAlternativeOption(option.key)} disabled={!option.result}>{alternativeOptionKeys.includes(option.key) ? t('quote.shippingOptions.removeAlternative') : t('quote.shippingOptions.addAlternative')}</Button>
+                        </td>
+                      ))}
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+              {shippingOptions.some((option) => option.issues.length > 0) && (
+                <ul style={{ margin: '8px 0 0', paddingLeft: 18, fontSize: 12, color: 'var(--text-dim)' }}>
+                  {shippingOptions.flatMap((option) => option.issues.map((issue, index) => (
+                    <li key={`${option.key}-${index}`}>{option.key}: {formatQuoteWarning(issue)}</li>
+                  )))}
+                </ul>
+              )}
+              <div style={{ ...dimTextStyle, fontSize: 12, marginTop: 8 }}>{t('quote.shippingOptions.exportHint')}</div>
+            </div>
+          )}
+
+          {quoteResult && fillSuggestions.length > 0 && (
+            <div className="subpanel glass-card quote-result-card" style={{ padding: 12, marginTop: 12 }}>
+              <div style={{ fontWeight: 700, marginBottom: 4 }}>{t('quote.fillSuggestion.title')}</div>
+              <div style={{ ...dimTextStyle, fontSize: 12, marginBottom: 8 }}>{t('quote.fillSuggestion.hint')}</div>
+              <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr>
+                    <th style={{ textAlign: 'left' }}>{t('quote.fillSuggestion.suggestion')}</th>
+                    <th style={{ textAlign: 'right' }}>{t('quote.result.bags')}</th>
+                    <th style={{ textAlign: 'right' }}>{t('quote.fillSuggestion.tons')}</th>
+                    <th style={{ textAlign: 'left' }}>{t('quote.priceLadder.shipping')}</th>
+                    <th style={{ textAlign: 'right' }}>{t('quote.result.kpiSell')}</th>
+                    <th style={{ textAlign: 'right' }}>{t('quote.factoryCompare.gpTotal')}</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {fillSuggestions.map((suggestion) => {
+                    const summary = suggestion.result?.summary
+                    return (
+                      <tr key={`${suggestion.kind}-${suggestion.bags}`}>
+                        <td>{suggestion.kind === 'full_container' ? tf('quote.fillSuggestion.fullContainer', { count: suggestion.container_count ?? 0 }) : tf('quote.fillSuggestion.wholeCarton', { cartons: suggestion.cartons ?? 0 })}</td>
+                        <td style={{ textAlign: 'right' }}>{suggestion.bags}</td>
+                        <td style={{ textAlign: 'right' }}>{suggestion.tons.toFixed(3)}</td>
+                        <td>{summary ? (summary.mode === 'LCL' ? 'LCL' : `${formatContainerMix(summary.container_mix)}（${summary.container_utilization.map((value) => `${(value * 100).toFixed(1)}%`).join(' / ')}）`) : '-'}</td>
+                        <td style={{ textAlign: 'right' }}>{summary ? formatCurrency(summary.sell_price_per_bag, summary.sell_currency, summary.sell_currency_decimals) : '-'}</td>
+                        <td style={{ textAlign: 'right' }}>{summary ? formatRmb(summary.gp_rmb_total, 2) : '-'}</td>
+                        <td style={{ textAlign: 'right' }}><Button className="btn-outline-neon" variant="outline" size="xs" onClick={() => handleApplyFillSuggestion(suggestion)}>{t('quote.fillSuggestion.apply')}</Button></td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+              {fillSuggestions.some((suggestion) => suggestion.issues.length > 0) && (
+                <ul style={{ margin: '8px 0 0', paddingLeft: 18, fontSize: 12, color: 'var(--text-dim)' }}>
+                  {fillSuggestions.flatMap((suggestion) => suggestion.issues.map((issue, index) => (
+                    <li key={`${suggestion.bags}-${index}`}>{suggestion.bags}: {formatQuoteWarning(issue)}</li>
+                  )))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {priceLadder && (
+            <div className="subpanel glass-card quote-result-card" style={{ padding: 12, marginTop: 12 }}>
+              <div style={{ fontWeight: 700, marginBottom: 8 }}>{t('quote.priceLadder.resultTitle')}</div>
+              <div style={{ overflowX: 'auto' }}>
+                <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                  <thead>
+                    <tr>
+                      <th style={{ textAlign: 'left' }}>{t(`quote.priceLadder.units.${priceLadder.unit}`)}</th>
+                      <th style={{ textAlign: 'left' }}>{t('quote.priceLadder.shipping')}</th>
+                      <th style={{ textAlign: 'right' }}>{t('quote.result.bags')}</th>
+                      <th style={{ textAlign: 'right' }}>{t('quote.result.kpiSell')}</th>
+                      <th style={{ textAlign: 'right' }}>{t('quote.priceLadder.amount')}</th>
+                      <th style={{ textAlign: 'right' }}>{t('quote.factoryCompare.gpTotal')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {priceLadder.rows.map((row) => {
+                      const summary = row.result?.summary
+                      return (
+                        <tr key={row.quantity}>
+                          <td>{row.quantity}</td>
+                          <td>{summary ? (summary.mode === 'LCL' ? 'LCL' : formatContainerMix(summary.container_mix)) : '-'}</td>
+                          <td style={{ textAlign: 'right' }}>{summary ? summary.bags_int : '-'}</td>
+                          <td style={{ textAlign: 'right' }}>{summary ? formatCurrency(summary.sell_price_per_bag, summary.sell_currency, summary.sell_currency_decimals) : '-'}</td>
+                          <td style={{ textAlign: 'right' }}>{summary ? formatCurrency(summary.amount, summary.sell_currency, summary.sell_currency_decimals) : '-'}</td>
+                          <td style={{ textAlign: 'right' }}>{summary ? formatRmb(summary.gp_rmb_total, 2) : '-'}</td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              {priceLadder.rows.some((row) => row.issues.length > 0) && (
+                <ul style={{ margin: '8px 0 0', paddingLeft: 18, fontSize: 12, color: 'var(--text-dim)' }}>
+                  {priceLadder.rows.flatMap((row) => row.issues.map((issue, index) => (
+                    <li key={`${row.quantity}-${index}`}>{row.quantity}: {formatQuoteWarning(issue)}</li>
+                  )))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {factoryComparison && (
+            <div className="subpanel glass-card quote-result-card" style={{ padding: 12, marginTop: 12 }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 }}>
+                <div style={{ fontWeight: 700 }}>{t('quote.factoryCompare.resultTitle')}</div>
+                <Select className="ui-select" value={factoryComparisonSort} onChange={(value) => setFactoryComparisonSort(value === 'gp' ? 'gp' : 'net')} data={[{ value: 'net', label: t('quote.factoryCompare.sortNet') }, { value: 'gp', label: t('quote.factoryCompare.sortGp') }]} searchable={false} allowDeselect={false} style={{ width: 180 }} />
+              </div>
+              <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr>
+                    <th style={{ textAlign: 'left' }}>#</th>
+                    <th style={{ textAlign: 'left' }}>{t('quote.factoryCompare.factory')}</th>
+                    <th style={{ textAlign: 'right' }}>{t('quote.factoryCompare.netPerBag')}</th>
+                    <th style={{ textAlign: 'right' }}>{t('quote.result.kpiSell')}</th>
+                    <th style={{ textAlign: 'right' }}>{t('quote.factoryCompare.gpTotal')}</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {sortedFactoryComparison.map((row) => {
+                    const rank = factoryComparisonSort === 'net' ? row.rank_by_net : row.rank_by_gp
+                    return (
+                      <Fragment key={row.factory_id}>
+                        <tr style={{ fontWeight: rank === 1 ? 700 : undefined }}>
+                          <td>{rank ?? '-'}</td>
+                          <td>{row.factory_name}{row.factory_id === selectedFactoryId ? ` ${t('quote.factoryCompare.current')}` : ''}</td>
+                          <td style={{ textAlign: 'right' }}>{row.result ? formatRmb(row.result.summary.net_rmb_per_bag) : '-'}</td>
+                          <td style={{ textAlign: 'right' }}>{row.result ? formatUsd(row.result.summary.sell_usd_per_bag) : '-'}</td>
+                          <td style={{ textAlign: 'right' }}>{row.result ? formatRmb(row.result.summary.gp_rmb_total, 2) : '-'}</td>
+                          <td style={{ textAlign: 'right' }}>{row.factory_id !== selectedFactoryId && <Button className="btn-outline-neon" variant="outline" size="xs" onClick={() => setSelectedFactoryId(row.factory_id)}>{t('quote.factoryCompare.use')}</Button>}</td>
+                        </tr>
+                        {row.issues.length > 0 && (
+                          <tr>
+                            <td />
+                            <td colSpan={5} style={{ fontSize: 12, color: row.issues.some((issue) => issue.severity === 'critical') ? 'var(--state-error-text)' : 'var(--text-dim)' }}>
+                              {row.issues.map((issue) => formatQuoteWarning(issue)).join('；')}
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {sensitivityResult && (
+            <div className="subpanel glass-card quote-result-card" style={{ padding: 12, marginTop: 12 }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 }}>
+                <div style={{ fontWeight: 700 }}>{t('quote.sensitivity.resultTitle')}</div>
+                <Select className="ui-select" value={sensitivityMetric} onChange={(value) => setSensitivityMetric((value as SensitivityMetric | null) ?? 'sell_usd_per_bag')} data={[{ value: 'sell_usd_per_bag', label: t('quote.sensitivity.metric.sell_usd_per_bag') }, { value: 'gp_rmb_total', label: t('quote.sensitivity.metric.gp_rmb_total') }]} searchable={false} allowDeselect={false} style={{ width: 180 }} />
+              </div>
+              <div style={{ overflowX: 'auto' }}>
+                <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                  <thead>
+                    <tr>
+                      <th style={{ textAlign: 'left' }}>{t(`quote.sensitivity.axis.${sensitivityResult.row_axis.key}`)} \ {t(`quote.sensitivity.axis.${sensitivityResult.col_axis.key}`)}</th>
+                      {sensitivityResult.col_axis.values.map((value) => (
+                        <th key={`col-${value}`} style={{ textAlign: 'right' }}>{formatSensitivityAxisValue(sensitivityResult.col_axis.key, value)}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {sensitivityResult.cells.map((row, rowIndex) => (
+                      <tr key={`row-${sensitivityResult.row_axis.values[rowIndex]}`}>
+                        <td style={{ fontWeight: 600 }}>{formatSensitivityAxisValue(sensitivityResult.row_axis.key, sensitivityResult.row_axis.values[rowIndex])}</td>
+                        {row.map((cell, colIndex) => (
+                          <td key={`cell-${colIndex}`} style={{ textAlign: 'right', color: cell && cell.gp_rmb_total < 0 ? 'var(--state-error-text)' : undefined }}>
+                            {cell === null ? '-' : sensitivityMetric === 'sell_usd_per_bag' ? formatUsd(cell.sell_usd_per_bag) : formatRmb(cell.gp_rmb_total, 2)}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {targetSolveResult && (
+            <div className={`status-box ${targetSolveResult.feasible ? 'status-info' : 'status-error'}`} style={{ marginTop: 12 }}>
+              <div style={{ fontWeight: 700, marginBottom: 6 }}>{t('quote.target.resultTitle')} · {formatUsd(targetSolveResult.target_sell_usd_per_bag)}</div>
+              {targetSolveResult.solved_value === null ? (
+                <div>{t('quote.target.infeasible')}</div>
+              ) : (
+                <>
+                  <div>{t('quote.target.solvedValue')}{formatTargetSolveValue(targetSolveResult.solve_for, targetSolveResult.solved_value)}</div>
+                  <div>{t('quote.target.baselineValue')}{formatTargetSolveValue(targetSolveResult.solve_for, targetSolveResult.baseline_value)}</div>
+                  {targetSolveResult.solve_for === 'pricing_value' && (
+                    <div>{targetSolveResult.meets_margin_floor ? t('quote.target.meetsFloor') : t('quote.target.belowFloor')}</div>
+                  )}
+                </>
+              )}
+              {targetSolveResult.warnings.length > 0 && (
+                <ul style={{ margin: '6px 0 0', paddingLeft: 18 }}>
+                  {targetSolveResult.warnings.map((warning, index) => (
+                    <li key={`target-${index}`} style={{ marginBottom: 4 }}>{formatQuoteWarning(warning)}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
           {quoteResult && displayWarnings.length > 0 && (
             <div className="status-box status-warning" style={{ marginTop: 12 }}>
               <div style={{ fontWeight: 700, marginBottom: 6 }}>{t('quote.result.warnings')}</div>
               <ul style={{ margin: 0, paddingLeft: 18 }}>
                 {displayWarnings.map((warning, index) => (
-                  <li key={`${warning}-${index}`} style={{ marginBottom: 4 }}>{warning}</li>
+                  <li key={`${warning.code}-${index}`} style={{ marginBottom: 4 }}>{formatQuoteWarning(warning)}</li>
                 ))}
               </ul>
             </div>
@@ -1141,11 +2188,62 @@ function Quoter(props: { onOperationSaved?: () => void }) {
               <div style={{ fontWeight: 700, marginBottom: 6 }}>关键风险提示</div>
               <ul style={{ margin: 0, paddingLeft: 18 }}>
                 {criticalWarnings.map((warning, index) => (
-                  <li key={`critical-${index}`} style={{ marginBottom: 4 }}>{warning}</li>
+                  <li key={`critical-${index}`} style={{ marginBottom: 4 }}>{formatQuoteWarning(warning)}</li>
                 ))}
               </ul>
             </div>
           )}
+
+          {documentResult && (
+            <div className="subpanel glass-card quote-result-card" style={{ padding: 12, marginTop: 12 }}>
+              <div style={{ fontWeight: 700, marginBottom: 8 }}>{t('quote.document.resultTitle')}</div>
+              <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr>
+                    <th style={{ textAlign: 'left' }}>{t('quote.document.product')}</th>
+                    <th style={{ textAlign: 'right' }}>{t('quote.result.bags')}</th>
+                    <th style={{ textAlign: 'right' }}>{t('quote.result.kpiSell')}</th>
+                    <th style={{ textAlign: 'right' }}>{t('quote.document.amountUsd')}</th>
+                    <th style={{ textAlign: 'right' }}>{t('quote.result.kpiGpTotal')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {documentResult.lines.map((line) => {
+                    const draft = documentLines.find((item) => item.input.line_id === line.line_id)
+                    return (
+                      <tr key={line.line_id}>
+                        <td>{draft?.productName ?? line.line_id}</td>
+                        <td style={{ textAlign: 'right' }}>{line.result.summary.bags_int}</td>
+                        <td style={{ textAlign: 'right' }}>{formatUsd(line.result.summary.sell_usd_per_bag)}</td>
+                        <td style={{ textAlign: 'right' }}>{formatUsd(line.amount_usd, 2)}</td>
+                        <td style={{ textAlign: 'right' }}>{formatRmb(line.result.summary.gp_rmb_total, 2)}</td>
+                      </tr>
+                    )
+                  })}
+                  <tr style={{ fontWeight: 700 }}>
+                    <td>{t('quote.document.total')}</td>
+                    <td style={{ textAlign: 'right' }}>{documentResult.totals.bags_int}</td>
+                    <td />
+                    <td style={{ textAlign: 'right' }}>{formatUsd(documentResult.totals.amount_usd, 2)}</td>
+                    <td style={{ textAlign: 'right' }}>{formatRmb(documentResult.totals.gp_rmb_total, 2)}</td>
+                  </tr>
+                </tbody>
+              </table>
+              {documentResult.totals.sell_currency !== BASE_SELL_CURRENCY && (
+                <div style={{ ...dimTextStyle, marginTop: 8 }}>{t('quote.document.amountInCurrency')}{formatCurrency(documentResult.totals.amount, documentResult.totals.sell_currency, 2)}</div>
+              )}
+              <div style={{ ...dimTextStyle, marginTop: 8 }}>
+                {documentResult.totals.mode} · {documentResult.totals.container_count} x {displayContainerType(documentResult.totals.container_type)} · {t('quote.document.containerFill')}{(documentResult.totals.container_fill * 100).toFixed(1)}%
+              </div>
+              {documentResult.warnings.length > 0 && (
+                <ul style={{ margin: '8px 0 0', paddingLeft: 18 }}>
+                  {documentResult.warnings.map((warning, index) => (
+                    <li key={`doc-${index}`} style={{ marginBottom: 4 }}>{formatQuoteWarning(warning)}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -1248,10 +2346,12 @@ export default function App() {
                     const action = String(payload?.action ?? item.id)
                     const table = String(payload?.table ?? '')
                     const count = payload?.recordCount !== undefined ? ` (${String(payload.recordCount)})` : ''
+                    const landOverrides = Array.isArray(payload?.land_overrides) ? (payload.land_overrides as Array<{ rmb_per_ton?: number; reason?: string | null }>) : []
                     return (
                       <li key={item.id} style={{ marginBottom: 8 }}>
                         <span style={{ color: 'var(--text-dim)' }}>{item.timestamp}</span>
                         <span style={{ marginLeft: 8 }}>{action}{table ? ` / ${table}` : ''}{count}</span>
+                        {landOverrides.map((entry, index) => <div key={index} style={{ fontSize: 12, color: 'var(--text-dim)' }}>{tf('app.landOverrideLog', { rate: entry.rmb_per_ton ?? '-', reason: entry.reason ?? '-' })}</div>)}
                       </li>
                     )
                   })}
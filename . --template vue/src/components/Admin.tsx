@@ -5,18 +5,30 @@ import type {
   AppData,
   CalculationHistory,
   ContainerLoadRule,
+  Currency,
+  ExtraCharge,
+  ExtraChargeBasis,
   Customer,
   EditableTableKey,
   Factory,
   FactoryPackagingOverride,
   FactoryProductCost,
   InnerPackType,
+  LclChargeBasis,
+  LandFreightBasis,
   LandFreightRule,
+  OceanFreightRule,
   PackagingOption,
   PackagingRecommendation,
+  PalletSpec,
   Port,
   PortChargesRule,
+  PriceAdjustmentBasis,
+  PricingFormulaMode,
+  RebateMode,
   Product,
+  RoundingPolicy,
+  SetupCharge,
   UserProfile,
 } from '@/types/domain'
 import { nextIdFromRows } from '@/utils/id'
@@ -37,14 +49,19 @@ type TableState = {
   products: Product[]
   packaging_options: PackagingOption[]
   packaging_recommendations: PackagingRecommendation[]
+  setup_charges: SetupCharge[]
   factories: Factory[]
   factory_product_costs: FactoryProductCost[]
   ports: Port[]
   port_charges_rules: PortChargesRule[]
+  extra_charges: ExtraCharge[]
+  ocean_freight_rules: OceanFreightRule[]
   container_load_rules: ContainerLoadRule[]
   land_freight_rules: LandFreightRule[]
   factory_packaging_overrides: FactoryPackagingOverride[]
   customers: Customer[]
+  currencies: Currency[]
+  pallet_specs: PalletSpec[]
 }
 
 type Column<T> = {
@@ -62,21 +79,27 @@ const TABS: Array<{ key: TabKey; label: string }> = [
   { key: 'products', label: ta('tabs.products') },
   { key: 'packaging_options', label: ta('tabs.packaging_options') },
   { key: 'packaging_recommendations', label: ta('tabs.packaging_recommendations') },
+  { key: 'setup_charges', label: ta('tabs.setup_charges') },
   { key: 'factories', label: ta('tabs.factories') },
   { key: 'factory_product_costs', label: ta('tabs.factory_product_costs') },
   { key: 'ports', label: ta('tabs.ports') },
   { key: 'port_charges_rules', label: ta('tabs.port_charges_rules') },
+  { key: 'extra_charges', label: ta('tabs.extra_charges') },
+  { key: 'ocean_freight_rules', label: ta('tabs.ocean_freight_rules') },
   { key: 'container_load_rules', label: ta('tabs.container_load_rules') },
   { key: 'land_freight_rules', label: ta('tabs.land_freight_rules') },
   { key: 'factory_packaging_overrides', label: ta('tabs.factory_packaging_overrides') },
   { key: 'customers', label: ta('tabs.customers') },
+  { key: 'currencies', label: ta('tabs.currencies') },
+  { key: 'pallet_specs', label: ta('tabs.pallet_specs') },
   { key: 'settings', label: ta('tabs.settings') },
 ]
 
 const ID_PREFIX: Record<EditableTableKey, string> = {
-  products: 'prod', packaging_options: 'pack', packaging_recommendations: 'pr', factories: 'fct',
-  factory_product_costs: 'fpc', ports: 'port', port_charges_rules: 'pcr', container_load_rules: 'clr',
-  land_freight_rules: 'lfr', factory_packaging_overrides: 'fpo', customers: 'cus',
+  products: 'prod', packaging_options: 'pack', packaging_recommendations: 'pr', setup_charges: 'stc', factories: 'fct',
+  factory_product_costs: 'fpc', ports: 'port', port_charges_rules: 'pcr', extra_charges: 'exc', ocean_freight_rules: 'ofr',
+  container_load_rules: 'clr', land_freight_rules: 'lfr', factory_packaging_overrides: 'fpo', customers: 'cus',
+  currencies: 'cur', pallet_specs: 'plt',
 }
 
 function nextUserIdFromProfiles(profiles: UserProfile[]): string {
@@ -109,27 +132,39 @@ const LABELS: Record<string, string> = {
   id: ta('fields.id'), name: ta('fields.name'), product_id: ta('fields.product_id'), factory_id: ta('fields.factory_id'), packaging_option_id: ta('fields.packaging_option_id'),
   refund_rate: ta('fields.refund_rate'), purchase_vat_rate: ta('fields.purchase_vat_rate'), invoice_tax_point: ta('fields.invoice_tax_point'), pol_port_id: ta('fields.pol_port_id'),
   unit_weight_kg: ta('fields.unit_weight_kg'), units_per_carton: ta('fields.units_per_carton'), carton_price_rmb: ta('fields.carton_price_rmb'), bag_price_rmb: ta('fields.bag_price_rmb'),
-  inner_pack_type: ta('fields.inner_pack_type'), cost_rmb_per_ton: ta('fields.cost_rmb_per_ton'), max_tons: ta('fields.max_tons'),
+  inner_pack_type: ta('fields.inner_pack_type'), cost_rmb_per_ton: ta('fields.cost_rmb_per_ton'), max_tons: ta('fields.max_tons'), max_cbm: ta('fields.max_cbm'),
+  unit_cbm: ta('fields.unit_cbm'), carton_cbm: ta('fields.carton_cbm'),
   port_id: ta('fields.port_id'), mode: ta('fields.mode'), container_type: ta('fields.container_type'), base_rmb: ta('fields.base_rmb'), extra_rmb_per_ton: ta('fields.extra_rmb_per_ton'),
+  destination_port_id: ta('fields.destination_port_id'), base_usd: ta('fields.base_usd'), extra_usd_per_ton: ta('fields.extra_usd_per_ton'),
   min_rmb_per_ton: ta('fields.min_rmb_per_ton'), max_rmb_per_ton: ta('fields.max_rmb_per_ton'), default_rmb_per_ton: ta('fields.default_rmb_per_ton'),
   cost_unit: ta('fields.cost_unit'),
-  fx_rate: ta('fields.fx_rate'), margin_pct: ta('fields.margin_pct'), quote_valid_days: ta('fields.quote_valid_days'), pricing_formula_mode: ta('fields.pricing_formula_mode'),
-  rounding_policy: ta('fields.rounding_policy'), terms_template: ta('fields.terms_template'), ui_theme: ta('fields.ui_theme'), money_format_rmb_decimals: ta('fields.money_format_rmb_decimals'), money_format_usd_decimals: ta('fields.money_format_usd_decimals'),
+  fx_rate: ta('fields.fx_rate'), margin_pct: ta('fields.margin_pct'), quote_valid_days: ta('fields.quote_valid_days'), pricing_formula_mode: ta('fields.pricing_formula_mode'), fixed_profit_value: ta('fields.fixed_profit_value'),
+  rounding_policy: ta('fields.rounding_policy'), price_step: ta('fields.price_step'), insurance_pct: ta('fields.insurance_pct'), terms_template: ta('fields.terms_template'), ui_theme: ta('fields.ui_theme'), money_format_rmb_decimals: ta('fields.money_format_rmb_decimals'), money_format_usd_decimals: ta('fields.money_format_usd_decimals'),
   recommended_units_per_carton: ta('fields.recommended_units_per_carton'), notes: ta('fields.notes'), carton_price_rmb_override: ta('fields.carton_price_rmb_override'), bag_price_rmb_override: ta('fields.bag_price_rmb_override'),
   contact: ta('fields.contact'),
   default_port_id: ta('fields.default_port_id'),
   customer_terms_template: ta('fields.customer_terms_template'),
 }
 
+const PRICING_FORMULA_OPTIONS: Array<{ value: PricingFormulaMode; label: string }> = (['divide', 'multiply', 'fixed_usd_per_bag', 'fixed_usd_per_ton', 'fixed_rmb_per_bag', 'fixed_rmb_per_ton'] as PricingFormulaMode[]).map((value) => ({ value, label: ta(`pricingFormula.${value}`) }))
+
+const ROUNDING_POLICY_OPTIONS: Array<{ value: RoundingPolicy; label: string }> = (['ceil', 'half_up', 'floor', 'step'] as RoundingPolicy[]).map((value) => ({ value, label: ta(`roundingPolicy.${value}`) }))
+
+const LCL_BASIS_OPTIONS: Array<{ value: LclChargeBasis; label: string }> = (['weight', 'measure', 'wm'] as LclChargeBasis[]).map((value) => ({ value, label: ta(`lclBasis.${value}`) }))
+const LAND_FREIGHT_BASIS_OPTIONS: Array<{ value: LandFreightBasis; label: string }> = (['per_ton', 'per_trip'] as LandFreightBasis[]).map((value) => ({ value, label: ta(`landFreightBasis.${value}`) }))
+const EXTRA_CHARGE_BASIS_OPTIONS: Array<{ value: ExtraChargeBasis; label: string }> = (['shipment', 'container', 'ton', 'bag'] as ExtraChargeBasis[]).map((value) => ({ value, label: ta(`extraChargeBasis.${value}`) }))
+const REBATE_MODE_OPTIONS: Array<{ value: RebateMode; label: string }> = (['vat_invoice', 'simplified'] as RebateMode[]).map((value) => ({ value, label: ta(`rebateMode.${value}`) }))
+const PRICE_ADJUSTMENT_OPTIONS: Array<{ value: PriceAdjustmentBasis; label: string }> = (['pct_of_sell', 'usd_per_bag'] as PriceAdjustmentBasis[]).map((value) => ({ value, label: ta(`priceAdjustment.${value}`) }))
+
 const INNER_PACK_LABELS: Record<InnerPackType, string> = { none: ta('innerPack.none'), carton: ta('innerPack.carton'), woven_bag: ta('innerPack.woven_bag'), small_box: ta('innerPack.small_box'), big_box: ta('innerPack.big_box') }
 
 const fieldLabelStyle: React.CSSProperties = { color: 'var(--text-dim)', fontSize: 12, marginBottom: 6 }
 
 const labelFor = (k: string, fb?: string) => LABELS[k] ?? fb ?? k
 const createEmptyTables = (): TableState => ({
-  products: [], packaging_options: [], packaging_recommendations: [], factories: [], factory_product_costs: [],
-  ports: [], port_charges_rules: [], container_load_rules: [], land_freight_rules: [], factory_packaging_overrides: [],
-  customers: [],
+  products: [], packaging_options: [], packaging_recommendations: [], setup_charges: [], factories: [], factory_product_costs: [],
+  ports: [], port_charges_rules: [], extra_charges: [], ocean_freight_rules: [], container_load_rules: [], land_freight_rules: [], factory_packaging_overrides: [],
+  customers: [], currencies: [], pallet_specs: [],
 })
 const isBlank = (v: unknown) => v === null || v === undefined || (typeof v === 'string' && v.trim().length === 0)
 const isFiniteNumber = (v: unknown) => typeof v === 'number' && Number.isFinite(v)
@@ -167,8 +202,11 @@ export default function Admin() {
   const [settingsQuoteValidDays, setSettingsQuoteValidDays] = useState('7')
   const [settingsRmbDecimals, setSettingsRmbDecimals] = useState('4')
   const [settingsUsdDecimals, setSettingsUsdDecimals] = useState('4')
-  const [settingsPricingFormulaMode, setSettingsPricingFormulaMode] = useState('divide')
-  const [settingsRoundingPolicy, setSettingsRoundingPolicy] = useState('ceil')
+  const [settingsPricingFormulaMode, setSettingsPricingFormulaMode] = useState<PricingFormulaMode>('divide')
+  const [settingsFixedProfitValue, setSettingsFixedProfitValue] = useState('0')
+  const [settingsRoundingPolicy, setSettingsRoundingPolicy] = useState<RoundingPolicy>('ceil')
+  const [settingsPriceStep, setSettingsPriceStep] = useState('0.05')
+  const [settingsInsurancePct, setSettingsInsurancePct] = useState('0.003')
   const [settingsLoadBasis, setSettingsLoadBasis] = useState<'tons' | 'cbm'>('tons')
   const [settingsOverflowStrategy, setSettingsOverflowStrategy] = useState<'upgrade_then_split' | 'split_same_type' | 'best_fit'>('upgrade_then_split')
   const [settingsContainerSequence, setSettingsContainerSequence] = useState('20GP,40HQ,40FT')
@@ -220,15 +258,20 @@ export default function Admin() {
       setData(appData)
       setTables({
         products: appData.products ?? [], packaging_options: appData.packaging_options ?? [], packaging_recommendations: appData.packaging_recommendations ?? [],
+        setup_charges: appData.setup_charges ?? [],
         factories: appData.factories ?? [], factory_product_costs: appData.factory_product_costs ?? [], ports: appData.ports ?? [],
-        port_charges_rules: appData.port_charges_rules ?? [], container_load_rules: appData.container_load_rules ?? [],
+        port_charges_rules: appData.port_charges_rules ?? [], extra_charges: appData.extra_charges ?? [], ocean_freight_rules: appData.ocean_freight_rules ?? [], container_load_rules: appData.container_load_rules ?? [],
         land_freight_rules: appData.land_freight_rules ?? [], factory_packaging_overrides: appData.factory_packaging_overrides ?? [], customers: appData.customers ?? [],
+        currencies: appData.currencies ?? [], pallet_specs: appData.pallet_specs ?? [],
       })
       setSettingsFxRate(String(appData.settings.fx_rate ?? 6.9)); setSettingsMarginPct(String(appData.settings.margin_pct ?? 0.05)); setSettingsQuoteValidDays(String(appData.settings.quote_valid_days ?? 7))
       setSettingsRmbDecimals(String(appData.settings.money_format?.rmb_decimals ?? 4)); setSettingsUsdDecimals(String(appData.settings.money_format?.usd_decimals ?? 4))
       setSettingsLoadBasis((appData.settings.load_basis_default ?? 'tons') === 'cbm' ? 'cbm' : 'tons')
       setSettingsOverflowStrategy((appData.settings.overflow_strategy ?? 'upgrade_then_split') as 'upgrade_then_split' | 'split_same_type' | 'best_fit')
       setSettingsContainerSequence((appData.settings.container_planning_sequence ?? ['20GP', '40HQ', '40FT']).join(','))
+      setSettingsInsurancePct(String(appData.settings.insurance_pct ?? 0.003))
+      setSettingsFixedProfitValue(String(appData.settings.fixed_profit_value ?? 0))
+      setSettingsPriceStep(String(appData.settings.price_step ?? 0.05))
       setSettingsPricingFormulaMode(appData.settings.pricing_formula_mode ?? 'divide'); setSettingsRoundingPolicy(appData.settings.rounding_policy ?? 'ceil'); const rawUiTheme = String(appData.settings.ui_theme ?? 'classic'); const loadedUiTheme = ((rawUiTheme === 'creative' ? 'neon' : rawUiTheme) as 'classic' | 'neon' | 'minimal' | 'paper' | undefined) ?? 'classic'; setSettingsUiTheme(loadedUiTheme); setUiThemeKey(loadedUiTheme); setSettingsTermsTemplate(appData.settings.terms_template ?? '')
       const rawProfiles = (appData.settings.user_profiles ?? [{ id: 'user_1', name: 'FROM', export_from_name: 'FROM' }]).filter((p) => p?.id)
       const profiles = normalizeUserProfilesForDisplay(rawProfiles)
@@ -249,6 +292,7 @@ export default function Admin() {
   const factoryOptions = useMemo(() => tables.factories.map((x) => ({ value: x.id, label: x.name || x.id })), [tables.factories])
   const packagingOptions = useMemo(() => tables.packaging_options.map((x) => ({ value: x.id, label: x.name || x.id })), [tables.packaging_options])
   const portOptions = useMemo(() => tables.ports.map((x) => ({ value: x.id, label: x.name || x.id })), [tables.ports])
+  const customerOptions = useMemo(() => tables.customers.map((x) => ({ value: x.id, label: x.name || x.id })), [tables.customers])
   const innerPackOptions: Array<{ value: InnerPackType; label: string }> = useMemo(() => Object.entries(INNER_PACK_LABELS).map(([v, l]) => ({ value: v as InnerPackType, label: l })), [])
 
   const markTableDirty = useCallback((table: EditableTableKey) => { setDirtyTables((p) => (p.includes(table) ? p : [...p, table])); setAutoSaveState('idle') }, [])
@@ -277,14 +321,19 @@ export default function Admin() {
         case 'products': return { id: nextIdFromRows(ID_PREFIX.products, tables.products), name: '', name_en: '', description_en: '', image_path: '', refund_rate: 0, purchase_vat_rate: 0.13, invoice_tax_point: 0.03, pol_port_id: tables.ports[0]?.id ?? '' } satisfies Product
         case 'packaging_options': return { id: nextIdFromRows(ID_PREFIX.packaging_options, tables.packaging_options), product_id: tables.products[0]?.id ?? '', name: '', unit_weight_kg: 1, units_per_carton: null, carton_price_rmb: 0, bag_price_rmb: 0, inner_pack_type: 'none', unit_cbm: null, carton_cbm: null, default_selected: false } satisfies PackagingOption
         case 'packaging_recommendations': return { id: nextIdFromRows(ID_PREFIX.packaging_recommendations, tables.packaging_recommendations), product_id: tables.products[0]?.id ?? '', inner_pack_type: null, unit_weight_kg: 1, recommended_units_per_carton: 1, notes: '' } satisfies PackagingRecommendation
-        case 'factories': return { id: nextIdFromRows(ID_PREFIX.factories, tables.factories), name: '', default_port_id: null } satisfies Factory
+        case 'setup_charges': return { id: nextIdFromRows(ID_PREFIX.setup_charges, tables.setup_charges), packaging_option_id: tables.packaging_options[0]?.id ?? '', name: '', amount_rmb: 0, moq_bags: null, waived_on_repeat: true } satisfies SetupCharge
+        case 'factories': return { id: nextIdFromRows(ID_PREFIX.factories, tables.factories), name: '', default_port_id: null, rebate_mode: 'vat_invoice', land_zone: null } satisfies Factory
         case 'factory_product_costs': return { id: nextIdFromRows(ID_PREFIX.factory_product_costs, tables.factory_product_costs), factory_id: tables.factories[0]?.id ?? '', product_id: tables.products[0]?.id ?? '', cost_rmb_per_ton: 0, cost_unit: 'ton' } satisfies FactoryProductCost
         case 'ports': return { id: nextIdFromRows(ID_PREFIX.ports, tables.ports), name: '', code: '', country: null } satisfies Port
+        case 'extra_charges': return { id: nextIdFromRows(ID_PREFIX.extra_charges, tables.extra_charges), name: '', amount_rmb: 0, basis: 'shipment', port_id: null, customer_id: null, country: null, auto_apply: true } satisfies ExtraCharge
         case 'port_charges_rules': return { id: nextIdFromRows(ID_PREFIX.port_charges_rules, tables.port_charges_rules), port_id: null, mode: 'FCL', container_type: '20GP', base_rmb: 0, extra_rmb_per_ton: 0 } satisfies PortChargesRule
+        case 'ocean_freight_rules': return { id: nextIdFromRows(ID_PREFIX.ocean_freight_rules, tables.ocean_freight_rules), pol_port_id: null, destination_port_id: '', mode: 'FCL', container_type: '20GP', base_usd: 0, extra_usd_per_ton: 0 } satisfies OceanFreightRule
         case 'container_load_rules': return { id: nextIdFromRows(ID_PREFIX.container_load_rules, tables.container_load_rules), product_id: tables.products[0]?.id ?? '', container_type: '20GP', max_tons: 0 } satisfies ContainerLoadRule
-        case 'land_freight_rules': return { id: nextIdFromRows(ID_PREFIX.land_freight_rules, tables.land_freight_rules), mode: 'FCL', factory_id: null, container_type: '20GP', min_rmb_per_ton: 0, max_rmb_per_ton: 0, default_rmb_per_ton: 0 } satisfies LandFreightRule
+        case 'land_freight_rules': return { id: nextIdFromRows(ID_PREFIX.land_freight_rules, tables.land_freight_rules), mode: 'FCL', factory_id: null, container_type: '20GP', min_rmb_per_ton: 0, max_rmb_per_ton: 0, default_rmb_per_ton: 0, basis: 'per_ton', rmb_per_trip: null, zone: null } satisfies LandFreightRule
         case 'factory_packaging_overrides': return { id: nextIdFromRows(ID_PREFIX.factory_packaging_overrides, tables.factory_packaging_overrides), factory_id: tables.factories[0]?.id ?? '', packaging_option_id: tables.packaging_options[0]?.id ?? '', carton_price_rmb_override: null, bag_price_rmb_override: null } satisfies FactoryPackagingOverride
-        case 'customers': return { id: nextIdFromRows(ID_PREFIX.customers, tables.customers), name: '', contact: '', default_port_id: null, terms_template: '' } satisfies Customer
+        case 'customers': return { id: nextIdFromRows(ID_PREFIX.customers, tables.customers), name: '', contact: '', default_port_id: null, terms_template: '', default_currency: null, commission_basis: null, commission_value: null, discount_basis: null, discount_value: null } satisfies Customer
+        case 'currencies': return { id: nextIdFromRows(ID_PREFIX.currencies, tables.currencies), code: '', name: '', rate_to_rmb: 0, decimals: 2 } satisfies Currency
+        case 'pallet_specs': return { id: nextIdFromRows(ID_PREFIX.pallet_specs, tables.pallet_specs), name: '', pallet_type: '', packaging_option_id: null, cartons_per_pallet: 0, pallet_cost_rmb: 0, pallet_weight_kg: 0, pallet_cbm: 0 } satisfies PalletSpec
         default: return null
       }
     })()
@@ -340,6 +389,8 @@ export default function Admin() {
         if (!isFiniteNumber(r.carton_price_rmb)) errors.push(`${row}: ${ta('fields.carton_price_rmb')}${num}`)
         if (!isFiniteNumber(r.bag_price_rmb)) errors.push(`${row}: ${ta('fields.bag_price_rmb')}${num}`)
         if (isBlank(r.inner_pack_type)) errors.push(`${row}: ${ta('fields.inner_pack_type')}${req}`)
+        if (r.unit_cbm !== null && r.unit_cbm !== undefined && !isFiniteNumber(r.unit_cbm)) errors.push(`${row}: ${ta('fields.unit_cbm')}${num}`)
+        if (r.carton_cbm !== null && r.carton_cbm !== undefined && !isFiniteNumber(r.carton_cbm)) errors.push(`${row}: ${ta('fields.carton_cbm')}${num}`)
         if (r.default_selected) count.set(r.product_id, (count.get(r.product_id) ?? 0) + 1)
       })
       count.forEach((n, productId) => { if (n > 1) errors.push(tf('validation.defaultPackTooMany', { product: tables.products.find((x) => x.id === productId)?.name ?? productId })) })
@@ -371,11 +422,19 @@ export default function Admin() {
     }
     if (table === 'factories') runBasic(tables.factories, table, [(r, row) => { if (isBlank(r.id)) errors.push(`${row}: ${idLabel}${req}`); if (isBlank(r.name)) errors.push(`${row}: ${ta('fields.name')}${req}`) }])
     if (table === 'ports') runBasic(tables.ports, table, [(r, row) => { if (isBlank(r.id)) errors.push(`${row}: ${idLabel}${req}`); if (isBlank(r.name)) errors.push(`${row}: ${ta('fields.name')}${req}`); if (isBlank(r.code)) errors.push(`${row}: ${ta('fields.code')}${req}`) }])
-    if (table === 'port_charges_rules') runBasic(tables.port_charges_rules, table, [(r, row) => { if (isBlank(r.id)) errors.push(`${row}: ${idLabel}${req}`); if (isBlank(r.mode)) errors.push(`${row}: ${ta('fields.mode')}${req}`); if (!isFiniteNumber(r.base_rmb)) errors.push(`${row}: ${ta('fields.base_rmb')}${num}`); if (!isFiniteNumber(r.extra_rmb_per_ton)) errors.push(`${row}: ${ta('fields.extra_rmb_per_ton')}${num}`) }])
-    if (table === 'container_load_rules') runBasic(tables.container_load_rules, table, [(r, row) => { if (isBlank(r.id)) errors.push(`${row}: ${idLabel}${req}`); if (isBlank(r.product_id)) errors.push(`${row}: ${ta('fields.product_id')}${req}`); if (isBlank(r.container_type)) errors.push(`${row}: ${ta('fields.container_type')}${req}`); if (!isFiniteNumber(r.max_tons)) errors.push(`${row}: ${ta('fields.max_tons')}${num}`) }])
-    if (table === 'land_freight_rules') runBasic(tables.land_freight_rules, table, [(r, row) => { if (isBlank(r.id)) errors.push(`${row}: ${idLabel}${req}`); if (isBlank(r.mode)) errors.push(`${row}: ${ta('fields.mode')}${req}`); if (isBlank(r.container_type)) errors.push(`${row}: ${ta('fields.container_type')}${req}`); if (!isFiniteNumber(r.min_rmb_per_ton)) errors.push(`${row}: ${ta('fields.min_rmb_per_ton')}${num}`); if (!isFiniteNumber(r.max_rmb_per_ton)) errors.push(`${row}: ${ta('fields.max_rmb_per_ton')}${num}`); if (!isFiniteNumber(r.default_rmb_per_ton)) errors.push(`${row}: ${ta('fields.default_rmb_per_ton')}${num}`) }])
+    if (table === 'extra_charges') runBasic(tables.extra_charges, table, [(r, row) => { if (isBlank(r.id)) errors.push(`${row}: ${idLabel}${req}`); if (isBlank(r.name)) errors.push(`${row}: ${ta('fields.name')}${req}`); if (isBlank(r.basis)) errors.push(`${row}: ${ta('fields.extra_charge_basis')}${req}`); if (!isFiniteNumber(r.amount_rmb) || r.amount_rmb < 0) errors.push(`${row}: ${ta('validation.extraAmountNonNegative')}`) }])
+    if (table === 'port_charges_rules') runBasic(tables.port_charges_rules, table, [(r, row) => { if (isBlank(r.id)) errors.push(`${row}: ${idLabel}${req}`); if (isBlank(r.mode)) errors.push(`${row}: ${ta('fields.mode')}${req}`); if (!isFiniteNumber(r.base_rmb)) errors.push(`${row}: ${ta('fields.base_rmb')}${num}`); if (!isFiniteNumber(r.extra_rmb_per_ton)) errors.push(`${row}: ${ta('fields.extra_rmb_per_ton')}${num}`); if ([r.extra_rmb_per_cbm, r.min_chargeable].some((v) => v !== null && v !== undefined && (!isFiniteNumber(v) || (v as number) < 0))) errors.push(`${row}: ${ta('validation.lclChargeNonNegative')}`) }])
+    if (table === 'ocean_freight_rules') runBasic(tables.ocean_freight_rules, table, [(r, row) => { if (isBlank(r.id)) errors.push(`${row}: ${idLabel}${req}`); if (isBlank(r.destination_port_id)) errors.push(`${row}: ${ta('fields.destination_port_id')}${req}`); if (isBlank(r.mode)) errors.push(`${row}: ${ta('fields.mode')}${req}`); if (r.mode === 'FCL' && isBlank(r.container_type)) errors.push(`${row}: ${ta('fields.container_type')}${req}`); if (!isFiniteNumber(r.base_usd)) errors.push(`${row}: ${ta('fields.base_usd')}${num}`); if (!isFiniteNumber(r.extra_usd_per_ton)) errors.push(`${row}: ${ta('fields.extra_usd_per_ton')}${num}`) }])
+    if (table === 'container_load_rules') runBasic(tables.container_load_rules, table, [(r, row) => { if (isBlank(r.id)) errors.push(`${row}: ${idLabel}${req}`); if (isBlank(r.product_id)) errors.push(`${row}: ${ta('fields.product_id')}${req}`); if (isBlank(r.container_type)) errors.push(`${row}: ${ta('fields.container_type')}${req}`); if (!isFiniteNumber(r.max_tons)) errors.push(`${row}: ${ta('fields.max_tons')}${num}`); if (r.max_cbm !== null && r.max_cbm !== undefined && !isFiniteNumber(r.max_cbm)) errors.push(`${row}: ${ta('fields.max_cbm')}${num}`); if (r.max_pallets !== null && r.max_pallets !== undefined && (!isFiniteNumber(r.max_pallets) || r.max_pallets <= 0 || !Number.isInteger(r.max_pallets))) errors.push(`${row}: ${ta('validation.maxPalletsPositive')}`) }])
+    if (table === 'land_freight_rules') runBasic(tables.land_freight_rules, table, [(r, row) => { if (isBlank(r.id)) errors.push(`${row}: ${idLabel}${req}`); if (isBlank(r.mode)) errors.push(`${row}: ${ta('fields.mode')}${req}`); if (isBlank(r.container_type)) errors.push(`${row}: ${ta('fields.container_type')}${req}`); if (!isFiniteNumber(r.min_rmb_per_ton)) errors.push(`${row}: ${ta('fields.min_rmb_per_ton')}${num}`); if (!isFiniteNumber(r.max_rmb_per_ton)) errors.push(`${row}: ${ta('fields.max_rmb_per_ton')}${num}`); if (!isFiniteNumber(r.default_rmb_per_ton)) errors.push(`${row}: ${ta('fields.default_rmb_per_ton')}${num}`); if (r.basis === 'per_trip' && r.mode !== 'FCL') errors.push(`${row}: ${ta('validation.perTripFclOnly')}`); if (r.basis === 'per_trip' && (r.rmb_per_trip === null || r.rmb_per_trip === undefined || !isFiniteNumber(r.rmb_per_trip) || r.rmb_per_trip < 0)) errors.push(`${row}: ${ta('validation.perTripNonNegative')}`) }])
     if (table === 'factory_packaging_overrides') runBasic(tables.factory_packaging_overrides, table, [(r, row) => { if (isBlank(r.id)) errors.push(`${row}: ${idLabel}${req}`); if (isBlank(r.factory_id)) errors.push(`${row}: ${ta('fields.factory_id')}${req}`); if (isBlank(r.packaging_option_id)) errors.push(`${row}: ${ta('fields.packaging_option_id')}${req}`); if (r.carton_price_rmb_override !== null && r.carton_price_rmb_override !== undefined && !isFiniteNumber(r.carton_price_rmb_override)) errors.push(`${row}: ${ta('fields.carton_price_rmb_override')}${num}`); if (r.bag_price_rmb_override !== null && r.bag_price_rmb_override !== undefined && !isFiniteNumber(r.bag_price_rmb_override)) errors.push(`${row}: ${ta('fields.bag_price_rmb_override')}${num}`) }])
-    if (table === 'customers') runBasic(tables.customers, table, [(r, row) => { if (isBlank(r.id)) errors.push(`${row}: ${idLabel}${req}`); if (isBlank(r.name)) errors.push(`${row}: ${ta('fields.name')}${req}`) }])
+    if (table === 'customers') runBasic(tables.customers, table, [(r, row) => { if (isBlank(r.id)) errors.push(`${row}: ${idLabel}${req}`); if (isBlank(r.name)) errors.push(`${row}: ${ta('fields.name')}${req}`); const checkAdjustment = (basis: PriceAdjustmentBasis | null | undefined, value: number | null | undefined, field: string) => { if (!basis) return; if (value === null || value === undefined || !isFiniteNumber(value) || value < 0 || (basis === 'pct_of_sell' && value >= 1)) errors.push(`${row}: ${tf('validation.priceAdjustmentRange', { field: ta(`fields.${field}`) })}`) }; checkAdjustment(r.commission_basis, r.commission_value, 'commission_value'); checkAdjustment(r.discount_basis, r.discount_value, 'discount_value') }])
+    if (table === 'currencies') {
+      const seenCodes = new Set<string>()
+      runBasic(tables.currencies, table, [(r, row) => { const code = String(r.code ?? '').trim().toUpperCase(); if (isBlank(r.id)) errors.push(`${row}: ${idLabel}${req}`); if (!code) errors.push(`${row}: ${ta('fields.currency_code')}${req}`); if (code === 'USD') errors.push(`${row}: ${ta('validation.currencyUsdReserved')}`); if (code && seenCodes.has(code)) errors.push(`${row}: ${tf('validation.duplicateCurrency', { code })}`); seenCodes.add(code); if (!isFiniteNumber(r.rate_to_rmb) || r.rate_to_rmb <= 0) errors.push(`${row}: ${ta('validation.currencyRatePositive')}`); if (!isFiniteNumber(r.decimals) || r.decimals < 0 || !Number.isInteger(r.decimals)) errors.push(`${row}: ${ta('validation.currencyDecimals')}`) }])
+    }
+    if (table === 'setup_charges') runBasic(tables.setup_charges, table, [(r, row) => { if (isBlank(r.id)) errors.push(`${row}: ${idLabel}${req}`); if (isBlank(r.packaging_option_id)) errors.push(`${row}: ${ta('fields.packaging_option_id')}${req}`); if (isBlank(r.name)) errors.push(`${row}: ${ta('fields.name')}${req}`); if (!isFiniteNumber(r.amount_rmb) || r.amount_rmb < 0) errors.push(`${row}: ${ta('validation.setupAmountNonNegative')}`); if (r.moq_bags !== null && r.moq_bags !== undefined && (!isFiniteNumber(r.moq_bags) || r.moq_bags <= 0 || !Number.isInteger(r.moq_bags))) errors.push(`${row}: ${ta('validation.moqPositive')}`) }])
+    if (table === 'pallet_specs') runBasic(tables.pallet_specs, table, [(r, row) => { if (isBlank(r.id)) errors.push(`${row}: ${idLabel}${req}`); if (isBlank(r.name)) errors.push(`${row}: ${ta('fields.name')}${req}`); if (!isFiniteNumber(r.cartons_per_pallet) || r.cartons_per_pallet <= 0 || !Number.isInteger(r.cartons_per_pallet)) errors.push(`${row}: ${ta('validation.cartonsPerPalletPositive')}`); if ([r.pallet_cost_rmb, r.pallet_weight_kg, r.pallet_cbm].some((v) => !isFiniteNumber(v) || v < 0)) errors.push(`${row}: ${ta('validation.palletNonNegative')}`) }])
     return errors
   }, [tables])
 
@@ -437,12 +496,15 @@ export default function Admin() {
 
   const saveSettings = useCallback(async (options: { reload?: boolean; source?: 'manual' | 'auto' } = {}) => {
     const { reload = true, source = 'manual' } = options
-    const fx = Number(settingsFxRate), margin = Number(settingsMarginPct), quoteDays = Number(settingsQuoteValidDays), rmb = Number(settingsRmbDecimals), usd = Number(settingsUsdDecimals)
+    const fx = Number(settingsFxRate), margin = Number(settingsMarginPct), quoteDays = Number(settingsQuoteValidDays), rmb = Number(settingsRmbDecimals), usd = Number(settingsUsdDecimals), insurance = Number(settingsInsurancePct), fixedProfit = Number(settingsFixedProfitValue), priceStep = Number(settingsPriceStep)
     if (!Number.isFinite(fx) || fx <= 0) { setError(ta('validation.fxPositive')); setAutoSaveState('error'); return }
     if (!Number.isFinite(margin) || margin < 0 || margin >= 1) { setError(ta('validation.marginRange')); setAutoSaveState('error'); return }
     if (!Number.isFinite(quoteDays) || quoteDays <= 0) { setError(ta('validation.quoteDaysPositive')); setAutoSaveState('error'); return }
     if (!Number.isFinite(rmb) || rmb < 0) { setError(ta('validation.rmbDecimals')); setAutoSaveState('error'); return }
     if (!Number.isFinite(usd) || usd < 0) { setError(ta('validation.usdDecimals')); setAutoSaveState('error'); return }
+    if (!Number.isFinite(insurance) || insurance < 0 || insurance >= 0.9) { setError(ta('validation.insuranceRange')); setAutoSaveState('error'); return }
+    if (!Number.isFinite(fixedProfit) || fixedProfit < 0) { setError(ta('validation.fixedProfitNonNegative')); setAutoSaveState('error'); return }
+    if (!Number.isFinite(priceStep) || priceStep <= 0) { setError(ta('validation.priceStepPositive')); setAutoSaveState('error'); return }
     const sequence = settingsContainerSequence
       .split(',')
       .map((item) => item.trim().toUpperCase())
@@ -450,16 +512,16 @@ export default function Admin() {
     if (sequence.length === 0) { setError('配柜顺序不能为空，示例：20GP,40HQ,40FT'); setAutoSaveState('error'); return }
     if (source === 'auto') setAutoSaveState('saving'); else setStatus(ta('statusText.savingSettings'))
     // @ts-ignore
-    const result = (await window.ipcRenderer.invoke('update-settings', { fx_rate: fx, margin_pct: margin, quote_valid_days: quoteDays, ui_theme: settingsUiTheme, money_format: { rmb_decimals: rmb, usd_decimals: usd }, pricing_formula_mode: settingsPricingFormulaMode, rounding_policy: settingsRoundingPolicy, load_basis_default: settingsLoadBasis, overflow_strategy: settingsOverflowStrategy, container_planning_sequence: sequence, terms_template: settingsTermsTemplate, user_profiles: settingsUserProfiles, active_user_profile_id: settingsActiveUserProfileId })) as { success: boolean; message?: string }
+    const result = (await window.ipcRenderer.invoke('update-settings', { fx_rate: fx, margin_pct: margin, quote_valid_days: quoteDays, ui_theme: settingsUiTheme, money_format: { rmb_decimals: rmb, usd_decimals: usd }, pricing_formula_mode: settingsPricingFormulaMode, fixed_profit_value: fixedProfit, rounding_policy: settingsRoundingPolicy, price_step: priceStep, load_basis_default: settingsLoadBasis, overflow_strategy: settingsOverflowStrategy, container_planning_sequence: sequence, insurance_pct: insurance, terms_template: settingsTermsTemplate, user_profiles: settingsUserProfiles, active_user_profile_id: settingsActiveUserProfileId })) as { success: boolean; message?: string }
     if (!result.success) { setError(result.message ?? ta('statusText.saveFailed')); setStatus(''); setAutoSaveState('error'); return }
     setDirtySettings(false)
     window.dispatchEvent(new CustomEvent('ui-theme-change', { detail: { uiTheme: settingsUiTheme } }))
     if (source === 'auto') setAutoSaveState('saved'); else setStatus(ta('statusText.settingsSaved'))
     if (!reload) {
-      setData((prev) => prev ? ({ ...prev, settings: { ...prev.settings, fx_rate: fx, margin_pct: margin, quote_valid_days: quoteDays, ui_theme: settingsUiTheme, money_format: { rmb_decimals: rmb, usd_decimals: usd }, pricing_formula_mode: settingsPricingFormulaMode, rounding_policy: settingsRoundingPolicy, load_basis_default: settingsLoadBasis, overflow_strategy: settingsOverflowStrategy, container_planning_sequence: sequence, terms_template: settingsTermsTemplate, user_profiles: settingsUserProfiles, active_user_profile_id: settingsActiveUserProfileId } }) : prev)
+      setData((prev) => prev ? ({ ...prev, settings: { ...prev.settings, fx_rate: fx, margin_pct: margin, quote_valid_days: quoteDays, ui_theme: settingsUiTheme, money_format: { rmb_decimals: rmb, usd_decimals: usd }, pricing_formula_mode: settingsPricingFormulaMode, fixed_profit_value: fixedProfit, rounding_policy: settingsRoundingPolicy, price_step: priceStep, load_basis_default: settingsLoadBasis, overflow_strategy: settingsOverflowStrategy, container_planning_sequence: sequence, insurance_pct: insurance, terms_template: settingsTermsTemplate, user_profiles: settingsUserProfiles, active_user_profile_id: settingsActiveUserProfileId } }) : prev)
     }
     if (reload) await loadData()
-  }, [settingsFxRate, settingsMarginPct, settingsQuoteValidDays, settingsRmbDecimals, settingsUsdDecimals, settingsPricingFormulaMode, settingsRoundingPolicy, settingsLoadBasis, settingsOverflowStrategy, settingsContainerSequence, settingsUiTheme, settingsTermsTemplate, settingsUserProfiles, settingsActiveUserProfileId, loadData])
+  }, [settingsFxRate, settingsMarginPct, settingsQuoteValidDays, settingsRmbDecimals, settingsUsdDecimals, settingsPricingFormulaMode, settingsFixedProfitValue, settingsRoundingPolicy, settingsPriceStep, settingsLoadBasis, settingsOverflowStrategy, settingsContainerSequence, settingsInsurancePct, settingsUiTheme, settingsTermsTemplate, settingsUserProfiles, settingsActiveUserProfileId, loadData])
 
   useEffect(() => {
     if (suppressAutoSaveRef.current) { suppressAutoSaveRef.current = false; return }
@@ -480,6 +542,7 @@ export default function Admin() {
     const packagingSelect = selectWithEmpty(packagingOptions, ta('select.packaging'))
     const portSelect = selectWithEmpty(portOptions, ta('select.port'))
     const innerPackSelect = selectWithEmpty(innerPackOptions, ta('select.innerPack'))
+    const currencySelect = selectWithEmpty([{ value: 'USD', label: 'USD' }, ...tables.currencies.filter((x) => !isBlank(x.code)).map((x) => ({ value: x.code, label: x.name ? `${x.code} ${x.name}` : x.code }))], ta('select.currency'))
     return {
       products: [
         { key: 'id', label: labelFor('id'), type: 'text', readOnly: true, width: 140 },
@@ -494,12 +557,13 @@ export default function Admin() {
         { key: 'name', label: labelFor('name'), type: 'text', width: 220 }, { key: 'unit_weight_kg', label: labelFor('unit_weight_kg'), type: 'number', step: '0.01' },
         { key: 'units_per_carton', label: labelFor('units_per_carton'), type: 'number', nullable: true, step: '1' }, { key: 'carton_price_rmb', label: labelFor('carton_price_rmb'), type: 'number' },
         { key: 'bag_price_rmb', label: labelFor('bag_price_rmb'), type: 'number' }, { key: 'inner_pack_type', label: labelFor('inner_pack_type'), type: 'select', options: innerPackOptions }, { key: 'default_selected', label: ta('common.defaultMark'), type: 'checkbox' },
+        { key: 'unit_cbm', label: labelFor('unit_cbm'), type: 'number', nullable: true, step: '0.0001' }, { key: 'carton_cbm', label: labelFor('carton_cbm'), type: 'number', nullable: true, step: '0.0001' },
       ] as Array<Column<PackagingOption>>,
       packaging_recommendations: [
         { key: 'id', label: ta('fields.id'), type: 'text', readOnly: true, width: 140 }, { key: 'product_id', label: ta('fields.product_id'), type: 'select', options: productSelect, width: 220 }, { key: 'inner_pack_type', label: ta('fields.inner_pack_type'), type: 'select', options: innerPackSelect, width: 200 },
         { key: 'unit_weight_kg', label: ta('fields.unit_weight_kg'), type: 'number', step: '0.01', width: 180 }, { key: 'recommended_units_per_carton', label: ta('fields.recommended_units_per_carton'), type: 'number', step: '1', width: 180 }, { key: 'notes', label: ta('fields.notes'), type: 'text', width: 240 },
       ] as Array<Column<PackagingRecommendation>>,
-      factories: [{ key: 'id', label: ta('fields.id'), type: 'text', readOnly: true, width: 140 }, { key: 'name', label: ta('fields.name'), type: 'text', width: 220 }, { key: 'default_port_id', label: ta('fields.default_port_id'), type: 'select', options: portSelect, width: 220 }] as Array<Column<Factory>>,
+      factories: [{ key: 'id', label: ta('fields.id'), type: 'text', readOnly: true, width: 140 }, { key: 'name', label: ta('fields.name'), type: 'text', width: 220 }, { key: 'default_port_id', label: ta('fields.default_port_id'), type: 'select', options: portSelect, width: 220 }, { key: 'rebate_mode', label: ta('fields.rebate_mode'), type: 'select', options: REBATE_MODE_OPTIONS, width: 220 }, { key: 'land_zone', label: ta('fields.land_zone'), type: 'text', width: 160 }] as Array<Column<Factory>>,
       factory_product_costs: [
         { key: 'id', label: ta('fields.id'), type: 'text', readOnly: true, width: 140 },
         { key: 'factory_id', label: ta('fields.factory_id'), type: 'select', options: factorySelect, width: 220 },
@@ -508,13 +572,18 @@ export default function Admin() {
         { key: 'cost_unit', label: ta('fields.cost_unit'), type: 'select', options: [{ value: 'ton', label: ta('unit.ton') }, { value: 'bag', label: ta('unit.bag') }, { value: 'piece', label: ta('unit.piece') }, { value: 'carton', label: ta('unit.carton') }], width: 180 },
       ] as Array<Column<FactoryProductCost>>,
       ports: [{ key: 'id', label: ta('fields.id'), type: 'text', readOnly: true, width: 140 }, { key: 'name', label: ta('fields.name'), type: 'text', width: 200 }, { key: 'code', label: ta('fields.code'), type: 'text', width: 120 }, { key: 'country', label: ta('fields.country'), type: 'text', width: 160 }] as Array<Column<Port>>,
-      port_charges_rules: [{ key: 'id', label: ta('fields.id'), type: 'text', readOnly: true, width: 140 }, { key: 'port_id', label: ta('fields.port_id'), type: 'select', options: portSelect }, { key: 'mode', label: ta('fields.mode'), type: 'select', options: [{ value: 'FCL', label: 'FCL' }, { value: 'LCL', label: 'LCL' }] }, { key: 'container_type', label: ta('fields.container_type'), type: 'select', options: [{ value: '', label: 'N/A' }, { value: '20GP', label: '20FT' }, { value: '40HQ', label: '40HQ' }, { value: '40FT', label: '40FT' }] }, { key: 'base_rmb', label: ta('fields.base_rmb'), type: 'number' }, { key: 'extra_rmb_per_ton', label: ta('fields.extra_rmb_per_ton'), type: 'number' }] as Array<Column<PortChargesRule>>,
-      container_load_rules: [{ key: 'id', label: ta('fields.id'), type: 'text', readOnly: true, width: 140 }, { key: 'product_id', label: ta('fields.product_id'), type: 'select', options: productSelect }, { key: 'container_type', label: ta('fields.container_type'), type: 'select', options: [{ value: '20GP', label: '20FT' }, { value: '40HQ', label: '40HQ' }, { value: '40FT', label: '40FT' }] }, { key: 'max_tons', label: ta('fields.max_tons'), type: 'number' }] as Array<Column<ContainerLoadRule>>,
-      land_freight_rules: [{ key: 'id', label: ta('fields.id'), type: 'text', readOnly: true, width: 140 }, { key: 'mode', label: ta('fields.mode'), type: 'select', options: [{ value: 'FCL', label: 'FCL' }, { value: 'LCL', label: 'LCL' }] }, { key: 'factory_id', label: ta('fields.factory_id'), type: 'select', options: factorySelect }, { key: 'container_type', label: ta('fields.container_type'), type: 'select', options: [{ value: '20GP', label: '20FT' }, { value: '40HQ', label: '40HQ' }, { value: '40FT', label: '40FT' }] }, { key: 'min_rmb_per_ton', label: ta('fields.min_rmb_per_ton'), type: 'number' }, { key: 'max_rmb_per_ton', label: ta('fields.max_rmb_per_ton'), type: 'number' }, { key: 'default_rmb_per_ton', label: ta('fields.default_rmb_per_ton'), type: 'number' }] as Array<Column<LandFreightRule>>,
+      port_charges_rules: [{ key: 'id', label: ta('fields.id'), type: 'text', readOnly: true, width: 140 }, { key: 'port_id', label: ta('fields.port_id'), type: 'select', options: portSelect }, { key: 'mode', label: ta('fields.mode'), type: 'select', options: [{ value: 'FCL', label: 'FCL' }, { value: 'LCL', label: 'LCL' }] }, { key: 'container_type', label: ta('fields.container_type'), type: 'select', options: [{ value: '', label: 'N/A' }, { value: '20GP', label: '20FT' }, { value: '40HQ', label: '40HQ' }, { value: '40FT', label: '40FT' }] }, { key: 'base_rmb', label: ta('fields.base_rmb'), type: 'number' }, { key: 'extra_rmb_per_ton', label: ta('fields.extra_rmb_per_ton'), type: 'number' }, { key: 'lcl_basis', label: ta('fields.lcl_basis'), type: 'select', options: selectWithEmpty(LCL_BASIS_OPTIONS, 'N/A'), width: 220 }, { key: 'extra_rmb_per_cbm', label: ta('fields.extra_rmb_per_cbm'), type: 'number', nullable: true }, { key: 'min_chargeable', label: ta('fields.min_chargeable'), type: 'number', nullable: true, step: '0.01' }] as Array<Column<PortChargesRule>>,
+      extra_charges: [{ key: 'id', label: ta('fields.id'), type: 'text', readOnly: true, width: 140 }, { key: 'name', label: ta('fields.name'), type: 'text', width: 180 }, { key: 'amount_rmb', label: ta('fields.extra_amount_rmb'), type: 'number' }, { key: 'basis', label: ta('fields.extra_charge_basis'), type: 'select', options: EXTRA_CHARGE_BASIS_OPTIONS }, { key: 'port_id', label: ta('fields.extra_port_id'), type: 'select', options: selectWithEmpty(portOptions, ta('select.anyPort')) }, { key: 'customer_id', label: ta('fields.customer_id'), type: 'select', options: selectWithEmpty(customerOptions, ta('select.anyCustomer')) }, { key: 'country', label: ta('fields.destination_country'), type: 'text', width: 140 }, { key: 'auto_apply', label: ta('fields.auto_apply'), type: 'checkbox' }] as Array<Column<ExtraCharge>>,
+      ocean_freight_rules: [{ key: 'id', label: ta('fields.id'), type: 'text', readOnly: true, width: 140 }, { key: 'pol_port_id', label: ta('fields.pol_port_id'), type: 'select', options: portSelect }, { key: 'destination_port_id', label: ta('fields.destination_port_id'), type: 'select', options: portSelect }, { key: 'mode', label: ta('fields.mode'), type: 'select', options: [{ value: 'FCL', label: 'FCL' }, { value: 'LCL', label: 'LCL' }] }, { key: 'container_type', label: ta('fields.container_type'), type: 'select', options: [{ value: '', label: 'N/A' }, { value: '20GP', label: '20FT' }, { value: '40HQ', label: '40HQ' }, { value: '40FT', label: '40FT' }] }, { key: 'base_usd', label: ta('fields.base_usd'), type: 'number' }, { key: 'extra_usd_per_ton', label: ta('fields.extra_usd_per_ton'), type: 'number' }] as Array<Column<OceanFreightRule>>,
+      container_load_rules: [{ key: 'id', label: ta('fields.id'), type: 'text', readOnly: true, width: 140 }, { key: 'product_id', label: ta('fields.product_id'), type: 'select', options: productSelect }, { key: 'container_type', label: ta('fields.container_type'), type: 'select', options: [{ value: '20GP', label: '20FT' }, { value: '40HQ', label: '40HQ' }, { value: '40FT', label: '40FT' }] }, { key: 'max_tons', label: ta('fields.max_tons'), type: 'number' }, { key: 'max_cbm', label: ta('fields.max_cbm'), type: 'number', nullable: true }, { key: 'max_pallets', label: ta('fields.max_pallets'), type: 'number', step: '1', nullable: true }] as Array<Column<ContainerLoadRule>>,
+      land_freight_rules: [{ key: 'id', label: ta('fields.id'), type: 'text', readOnly: true, width: 140 }, { key: 'mode', label: ta('fields.mode'), type: 'select', options: [{ value: 'FCL', label: 'FCL' }, { value: 'LCL', label: 'LCL' }] }, { key: 'factory_id', label: ta('fields.factory_id'), type: 'select', options: factorySelect }, { key: 'container_type', label: ta('fields.container_type'), type: 'select', options: [{ value: '20GP', label: '20FT' }, { value: '40HQ', label: '40HQ' }, { value: '40FT', label: '40FT' }] }, { key: 'min_rmb_per_ton', label: ta('fields.min_rmb_per_ton'), type: 'number' }, { key: 'max_rmb_per_ton', label: ta('fields.max_rmb_per_ton'), type: 'number' }, { key: 'default_rmb_per_ton', label: ta('fields.default_rmb_per_ton'), type: 'number' }, { key: 'basis', label: ta('fields.land_basis'), type: 'select', options: LAND_FREIGHT_BASIS_OPTIONS, width: 160 }, { key: 'rmb_per_trip', label: ta('fields.rmb_per_trip'), type: 'number', nullable: true }, { key: 'zone', label: ta('fields.land_zone'), type: 'text', width: 160 }] as Array<Column<LandFreightRule>>,
       factory_packaging_overrides: [{ key: 'id', label: ta('fields.id'), type: 'text', readOnly: true, width: 140 }, { key: 'factory_id', label: ta('fields.factory_id'), type: 'select', options: factorySelect }, { key: 'packaging_option_id', label: ta('fields.packaging_option_id'), type: 'select', options: packagingSelect }, { key: 'carton_price_rmb_override', label: ta('fields.carton_price_rmb_override'), type: 'number', nullable: true }, { key: 'bag_price_rmb_override', label: ta('fields.bag_price_rmb_override'), type: 'number', nullable: true }] as Array<Column<FactoryPackagingOverride>>,
-      customers: [{ key: 'id', label: ta('fields.id'), type: 'text', readOnly: true, width: 140 }, { key: 'name', label: ta('fields.name'), type: 'text', width: 220 }, { key: 'contact', label: labelFor('contact'), type: 'text', width: 220 }, { key: 'default_port_id', label: labelFor('default_port_id'), type: 'select', options: portSelect }, { key: 'terms_template', label: labelFor('customer_terms_template'), type: 'text', width: 260 }] as Array<Column<Customer>>,
+      customers: [{ key: 'id', label: ta('fields.id'), type: 'text', readOnly: true, width: 140 }, { key: 'name', label: ta('fields.name'), type: 'text', width: 220 }, { key: 'contact', label: labelFor('contact'), type: 'text', width: 220 }, { key: 'default_port_id', label: labelFor('default_port_id'), type: 'select', options: portSelect }, { key: 'terms_template', label: labelFor('customer_terms_template'), type: 'text', width: 260 }, { key: 'default_currency', label: ta('fields.default_currency'), type: 'select', options: currencySelect }, { key: 'commission_basis', label: ta('fields.commission_basis'), type: 'select', options: selectWithEmpty(PRICE_ADJUSTMENT_OPTIONS, ta('select.noAdjustment')) }, { key: 'commission_value', label: ta('fields.commission_value'), type: 'number', step: '0.001', nullable: true }, { key: 'discount_basis', label: ta('fields.discount_basis'), type: 'select', options: selectWithEmpty(PRICE_ADJUSTMENT_OPTIONS, ta('select.noAdjustment')) }, { key: 'discount_value', label: ta('fields.discount_value'), type: 'number', step: '0.001', nullable: true }] as Array<Column<Customer>>,
+      currencies: [{ key: 'id', label: ta('fields.id'), type: 'text', readOnly: true, width: 140 }, { key: 'code', label: ta('fields.currency_code'), type: 'text', width: 120 }, { key: 'name', label: ta('fields.name'), type: 'text', width: 200 }, { key: 'rate_to_rmb', label: ta('fields.rate_to_rmb'), type: 'number', step: '0.0001', width: 180 }, { key: 'decimals', label: ta('fields.currency_decimals'), type: 'number', step: '1' }] as Array<Column<Currency>>,
+      setup_charges: [{ key: 'id', label: ta('fields.id'), type: 'text', readOnly: true, width: 140 }, { key: 'packaging_option_id', label: ta('fields.packaging_option_id'), type: 'select', options: packagingSelect }, { key: 'name', label: ta('fields.name'), type: 'text', width: 180 }, { key: 'amount_rmb', label: ta('fields.setup_amount_rmb'), type: 'number' }, { key: 'moq_bags', label: ta('fields.moq_bags'), type: 'number', step: '1', nullable: true }, { key: 'waived_on_repeat', label: ta('fields.waived_on_repeat'), type: 'checkbox' }] as Array<Column<SetupCharge>>,
+      pallet_specs: [{ key: 'id', label: ta('fields.id'), type: 'text', readOnly: true, width: 140 }, { key: 'name', label: ta('fields.name'), type: 'text', width: 200 }, { key: 'pallet_type', label: ta('fields.pallet_type'), type: 'text', width: 160 }, { key: 'packaging_option_id', label: ta('fields.pallet_packaging_option_id'), type: 'select', options: selectWithEmpty(packagingOptions, ta('select.allPackaging')) }, { key: 'cartons_per_pallet', label: ta('fields.cartons_per_pallet'), type: 'number', step: '1' }, { key: 'pallet_cost_rmb', label: ta('fields.pallet_cost_rmb'), type: 'number' }, { key: 'pallet_weight_kg', label: ta('fields.pallet_weight_kg'), type: 'number' }, { key: 'pallet_cbm', label: ta('fields.pallet_cbm'), type: 'number', step: '0.001' }] as Array<Column<PalletSpec>>,
     }
-  }, [factoryOptions, innerPackOptions, packagingOptions, portOptions, productOptions, selectWithEmpty])
+  }, [customerOptions, factoryOptions, innerPackOptions, packagingOptions, portOptions, productOptions, selectWithEmpty, tables.currencies])
 
   const draftColumns = useMemo(() => {
     if (!addDraftTable) return []
@@ -674,14 +743,17 @@ export default function Admin() {
                 <div><label>{labelFor('quote_valid_days')}</label><input type="number" step="1" value={settingsQuoteValidDays} onChange={(e) => { setSettingsQuoteValidDays(e.target.value); setDirtySettings(true); setAutoSaveState('idle') }} className="admin-input admin-input-tight" /></div>
                 <div><label>{labelFor('money_format_rmb_decimals')}</label><input type="number" step="1" value={settingsRmbDecimals} onChange={(e) => { setSettingsRmbDecimals(e.target.value); setDirtySettings(true); setAutoSaveState('idle') }} className="admin-input admin-input-tight" /></div>
                 <div><label>{labelFor('money_format_usd_decimals')}</label><input type="number" step="1" value={settingsUsdDecimals} onChange={(e) => { setSettingsUsdDecimals(e.target.value); setDirtySettings(true); setAutoSaveState('idle') }} className="admin-input admin-input-tight" /></div>
-                <div><label>{labelFor('rounding_policy')}</label><MantineSelect className="ui-select" mt={6} value={settingsRoundingPolicy} onChange={(value) => { setSettingsRoundingPolicy(value ?? 'ceil'); setDirtySettings(true); setAutoSaveState('idle') }} data={[{ value: 'ceil', label: ta('fields.rounding_policy') }]} searchable={false} allowDeselect={false} /></div>
+                <div><label>{labelFor('insurance_pct')}</label><input type="number" step="0.0001" value={settingsInsurancePct} onChange={(e) => { setSettingsInsurancePct(e.target.value); setDirtySettings(true); setAutoSaveState('idle') }} className="admin-input admin-input-tight" /></div>
+                <div><label>{labelFor('rounding_policy')}</label><MantineSelect className="ui-select" mt={6} value={settingsRoundingPolicy} onChange={(value) => { setSettingsRoundingPolicy((value as RoundingPolicy | null) ?? 'ceil'); setDirtySettings(true); setAutoSaveState('idle') }} data={ROUNDING_POLICY_OPTIONS} searchable={false} allowDeselect={false} /></div>
+                <div><label>{labelFor('price_step')}</label><input type="number" step="0.01" value={settingsPriceStep} onChange={(e) => { setSettingsPriceStep(e.target.value); setDirtySettings(true); setAutoSaveState('idle') }} className="admin-input admin-input-tight" disabled={settingsRoundingPolicy !== 'step'} /></div>
               </div>
             </div>
 
             <div className="subpanel settings-group" style={{ padding: 14 }}>
               <div className="section-title" style={{ marginBottom: 10 }}>{ta('settingsSection.pricingTheme')}</div>
               <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, minmax(0, 1fr))', gap: 14 }}>
-                <div><label>{labelFor('pricing_formula_mode')}</label><MantineSelect className="ui-select" mt={6} value={settingsPricingFormulaMode} onChange={(value) => { setSettingsPricingFormulaMode(value ?? 'divide'); setDirtySettings(true); setAutoSaveState('idle') }} data={[{ value: 'divide', label: 'cost/(1-margin)' }]} searchable={false} allowDeselect={false} /></div>
+                <div><label>{labelFor('pricing_formula_mode')}</label><MantineSelect className="ui-select" mt={6} value={settingsPricingFormulaMode} onChange={(value) => { setSettingsPricingFormulaMode((value as PricingFormulaMode | null) ?? 'divide'); setDirtySettings(true); setAutoSaveState('idle') }} data={PRICING_FORMULA_OPTIONS} searchable={false} allowDeselect={false} /></div>
+                <div><label>{labelFor('fixed_profit_value')}</label><input type="number" step="0.01" value={settingsFixedProfitValue} onChange={(e) => { setSettingsFixedProfitValue(e.target.value); setDirtySettings(true); setAutoSaveState('idle') }} className="admin-input admin-input-tight" disabled={settingsPricingFormulaMode === 'divide' || settingsPricingFormulaMode === 'multiply'} /></div>
                 <div><label>装柜基准</label><MantineSelect className="ui-select" mt={6} value={settingsLoadBasis} onChange={(value) => { setSettingsLoadBasis((value as 'tons' | 'cbm' | null) ?? 'tons'); setDirtySettings(true); setAutoSaveState('idle') }} data={[{ value: 'tons', label: '按吨（tons）' }, { value: 'cbm', label: '按方（CBM）' }]} searchable={false} allowDeselect={false} /></div>
                 <div><label>溢出策略</label><MantineSelect className="ui-select" mt={6} value={settingsOverflowStrategy} onChange={(value) => { setSettingsOverflowStrategy((value as 'upgrade_then_split' | 'split_same_type' | 'best_fit' | null) ?? 'upgrade_then_split'); setDirtySettings(true); setAutoSaveState('idle') }} data={[{ value: 'upgrade_then_split', label: '优先升级柜型，再拆分' }, { value: 'split_same_type', label: '保持柜型，直接拆分' }, { value: 'best_fit', label: '自动最佳匹配' }]} searchable={false} allowDeselect={false} /></div>
                 <div><label>配柜顺序（逗号分隔）</label><input type="text" value={settingsContainerSequence} onChange={(e) => { setSettingsContainerSequence(e.target.value); setDirtySettings(true); setAutoSaveState('idle') }} className="admin-input admin-input-tight" placeholder="20GP,40HQ,40FT" /></div>
@@ -1008,6 +1080,40 @@ export default function Admin() {
                         className="admin-input"
                       />
                     </div>
+                    <div>
+                      <div style={fieldLabelStyle}>{ta('fields.unit_cbm')}</div>
+                      <input
+                        type="number"
+                        step="0.0001"
+                        value={formatNumberInput(pack.unit_cbm)}
+                        onChange={(e) =>
+                          updateRow(
+                            'packaging_options',
+                            pack.id,
+                            'unit_cbm',
+                            parseNumberInput(e.target.value, true),
+                          )
+                        }
+                        className="admin-input"
+                      />
+                    </div>
+                    <div>
+                      <div style={fieldLabelStyle}>{ta('fields.carton_cbm')}</div>
+                      <input
+                        type="number"
+                        step="0.0001"
+                        value={formatNumberInput(pack.carton_cbm)}
+                        onChange={(e) =>
+                          updateRow(
+                            'packaging_options',
+                            pack.id,
+                            'carton_cbm',
+                            parseNumberInput(e.target.value, true),
+                          )
+                        }
+                        className="admin-input"
+                      />
+                    </div>
                   </div>
                 </div>
               ))}
@@ -1017,11 +1123,16 @@ export default function Admin() {
           {activeTab === 'factories' && <EditableTable columns={columnsByTable.factories} rows={tables.factories} onChange={(id, k, v) => updateRow('factories', id, String(k), v)} onDelete={(id) => deleteRow('factories', id)} />}
           {activeTab === 'factory_product_costs' && <EditableTable columns={columnsByTable.factory_product_costs} rows={tables.factory_product_costs} onChange={(id, k, v) => updateRow('factory_product_costs', id, String(k), v)} onDelete={(id) => deleteRow('factory_product_costs', id)} />}
           {activeTab === 'ports' && <EditableTable columns={columnsByTable.ports} rows={tables.ports} onChange={(id, k, v) => updateRow('ports', id, String(k), v)} onDelete={(id) => deleteRow('ports', id)} />}
-          {activeTab === 'port_charges_rules' && <EditableTable columns={columnsByTable.port_charges_rules} rows={tables.port_charges_rules} onChange={(id, k, v) => updateRow('port_charges_rules', id, String(k), v)} onDelete={(id) => deleteRow('port_charges_rules', id)} />}
+          {activeTab === 'port_charges_rules' && <><div className="status-box status-info" style={{ marginBottom: 8 }}>{ta('hint.portCharges')}</div><EditableTable columns={columnsByTable.port_charges_rules} rows={tables.port_charges_rules} onChange={(id, k, v) => updateRow('port_charges_rules', id, String(k), v)} onDelete={(id) => deleteRow('port_charges_rules', id)} /></>}
+          {activeTab === 'extra_charges' && <><div className="status-box status-info" style={{ marginBottom: 8 }}>{ta('hint.extraCharges')}</div><EditableTable columns={columnsByTable.extra_charges} rows={tables.extra_charges} onChange={(id, k, v) => updateRow('extra_charges', id, String(k), v)} onDelete={(id) => deleteRow('extra_charges', id)} /></>}
+          {activeTab === 'ocean_freight_rules' && <><div className="status-box status-info" style={{ marginBottom: 8 }}>{ta('hint.oceanFreight')}</div><EditableTable columns={columnsByTable.ocean_freight_rules} rows={tables.ocean_freight_rules} onChange={(id, k, v) => updateRow('ocean_freight_rules', id, String(k), v)} onDelete={(id) => deleteRow('ocean_freight_rules', id)} /></>}
           {activeTab === 'container_load_rules' && <EditableTable columns={columnsByTable.container_load_rules} rows={tables.container_load_rules} onChange={(id, k, v) => updateRow('container_load_rules', id, String(k), v)} onDelete={(id) => deleteRow('container_load_rules', id)} />}
           {activeTab === 'land_freight_rules' && <><div className="status-box status-info" style={{ marginBottom: 8 }}>{ta('hint.landFreight')}</div><EditableTable columns={columnsByTable.land_freight_rules} rows={tables.land_freight_rules} onChange={(id, k, v) => updateRow('land_freight_rules', id, String(k), v)} onDelete={(id) => deleteRow('land_freight_rules', id)} /></>}
           {activeTab === 'factory_packaging_overrides' && <EditableTable columns={columnsByTable.factory_packaging_overrides} rows={tables.factory_packaging_overrides} onChange={(id, k, v) => updateRow('factory_packaging_overrides', id, String(k), v)} onDelete={(id) => deleteRow('factory_packaging_overrides', id)} />}
           {activeTab === 'customers' && <EditableTable columns={columnsByTable.customers} rows={tables.customers} onChange={(id, k, v) => updateRow('customers', id, String(k), v)} onDelete={(id) => deleteRow('customers', id)} />}
+          {activeTab === 'setup_charges' && <><div className="status-box status-info" style={{ marginBottom: 8 }}>{ta('hint.setupCharges')}</div><EditableTable columns={columnsByTable.setup_charges} rows={tables.setup_charges} onChange={(id, k, v) => updateRow('setup_charges', id, String(k), v)} onDelete={(id) => deleteRow('setup_charges', id)} /></>}
+          {activeTab === 'pallet_specs' && <><div className="status-box status-info" style={{ marginBottom: 8 }}>{ta('hint.palletSpecs')}</div><EditableTable columns={columnsByTable.pallet_specs} rows={tables.pallet_specs} onChange={(id, k, v) => updateRow('pallet_specs', id, String(k), v)} onDelete={(id) => deleteRow('pallet_specs', id)} /></>}
+          {activeTab === 'currencies' && <><div className="status-box status-info" style={{ marginBottom: 8 }}>{ta('hint.currencies')}</div><EditableTable columns={columnsByTable.currencies} rows={tables.currencies} onChange={(id, k, v) => updateRow('currencies', id, String(k), v)} onDelete={(id) => deleteRow('currencies', id)} /></>}
         </div>
       )}
       </div>
@@ -1135,11 +1246,12 @@ export default function Admin() {
                       const customer = String((quoteData?.input as Record<string, unknown>)?.customerName ?? '')
                       const versionTag = String(quoteData?.version_tag ?? '')
                       const mode = String((quoteData?.summary as Record<string, unknown>)?.mode ?? '-')
+                      const pricingFormulaMode = String((quoteData?.summary as Record<string, unknown>)?.pricing_formula_mode ?? '')
                       return (
                         <tr key={item.id}>
                           <td>{item.id}</td>
                           <td>{item.timestamp}</td>
-                          <td>{customer ? `${customer} / ` : ''}{product} / {mode}{versionTag ? ` / ${versionTag}` : ''}</td>
+                          <td>{customer ? `${customer} / ` : ''}{product} / {mode}{pricingFormulaMode ? ` / ${ta(`pricingFormula.${pricingFormulaMode}`)}` : ''}{versionTag ? ` / ${versionTag}` : ''}</td>
                         </tr>
                       )
                     })}
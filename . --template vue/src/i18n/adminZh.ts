@@ -3,14 +3,19 @@ const adminZh = {
     products: '产品',
     packaging_options: '包装方案',
     packaging_recommendations: '推荐箱规',
+    setup_charges: '一次性费用',
     factories: '工厂',
     factory_product_costs: '工厂成本',
     ports: '港口',
     port_charges_rules: '港杂规则',
+    extra_charges: '附加费用',
+    ocean_freight_rules: '海运费',
     container_load_rules: '装柜吨数',
     land_freight_rules: '国内段费用',
     factory_packaging_overrides: '工厂包装价覆盖',
     customers: '客户',
+    currencies: '币种汇率',
+    pallet_specs: '托盘规格',
     settings: '设置',
   },
   fields: {
@@ -31,19 +36,35 @@ const adminZh = {
     cost_rmb_per_ton: '成本',
     cost_unit: '单位',
     max_tons: '最大装柜吨数',
+    max_cbm: '最大装柜方数(CBM)',
+    max_pallets: '最大托盘位',
+    unit_cbm: '每袋体积(CBM)',
+    carton_cbm: '每箱体积(CBM)',
     port_id: '港口',
     mode: '运输模式',
     container_type: '柜型',
     base_rmb: '基础费用(RMB)',
     extra_rmb_per_ton: '超吨费用(RMB/吨)',
+    lcl_basis: 'LCL 计费口径',
+    extra_rmb_per_cbm: '每方费用(RMB/CBM)',
+    min_chargeable: '最低计费数量',
+    destination_port_id: '目的港',
+    base_usd: '基础运费(USD)',
+    extra_usd_per_ton: '每吨运费(USD/吨)',
     min_rmb_per_ton: '最低每吨运费(RMB/吨)',
     max_rmb_per_ton: '最高每吨运费(RMB/吨)',
     default_rmb_per_ton: '默认每吨运费(RMB/吨)',
+    land_basis: '计价方式',
+    rmb_per_trip: '每车运费(RMB/车)',
+    land_zone: '距离区间',
     fx_rate: '汇率',
     margin_pct: '毛利率',
     quote_valid_days: '报价有效期(天)',
     pricing_formula_mode: '定价公式模式',
+    fixed_profit_value: '固定利润额',
     rounding_policy: '取整规则',
+    price_step: '价格档位(USD)',
+    insurance_pct: 'CIF 保险费率',
     terms_template: '条款模板',
     ui_theme: '界面主题',
     money_format_rmb_decimals: 'RMB 小数位',
@@ -57,6 +78,67 @@ const adminZh = {
     default_port_id: '默认港口',
     contact: '联系人',
     customer_terms_template: '默认条款',
+    default_currency: '默认报价币种',
+    rebate_mode: '退税计算方式',
+    currency_code: '币种代码',
+    rate_to_rmb: '汇率(1 单位折合 RMB)',
+    currency_decimals: '报价小数位',
+    setup_amount_rmb: '金额(RMB)',
+    moq_bags: '起订量(袋)',
+    waived_on_repeat: '返单免收',
+    pallet_type: '托盘类型',
+    pallet_packaging_option_id: '适用包装方案',
+    cartons_per_pallet: '每托箱数',
+    pallet_cost_rmb: '每托成本(RMB)',
+    pallet_weight_kg: '托盘自重(kg)',
+    pallet_cbm: '托盘体积(CBM)',
+    extra_amount_rmb: '金额(RMB)',
+    extra_charge_basis: '计费方式',
+    extra_port_id: '适用起运港',
+    customer_id: '适用客户',
+    destination_country: '适用目的国',
+    auto_apply: '自动带入',
+    commission_basis: '佣金方式',
+    commission_value: '佣金(比例或 USD/袋)',
+    discount_basis: '折扣方式',
+    discount_value: '折扣(比例或 USD/袋)',
+  },
+  pricingFormula: {
+    divide: '毛利率：成本/(1-毛利率)',
+    multiply: '加价率：成本×(1+加价率)',
+    fixed_usd_per_bag: '固定利润（USD/袋）',
+    fixed_usd_per_ton: '固定利润（USD/吨）',
+    fixed_rmb_per_bag: '固定利润（RMB/袋）',
+    fixed_rmb_per_ton: '固定利润（RMB/吨）',
+  },
+  roundingPolicy: {
+    ceil: '向上取整',
+    half_up: '四舍五入',
+    floor: '向下取整',
+    step: '按价格档位向上取整',
+  },
+  rebateMode: {
+    vat_invoice: '专票：不含税采购价 × 退税率',
+    simplified: '简易：含税采购价 × 退税率',
+  },
+  lclBasis: {
+    weight: '重量吨（首吨含在基础费用内）',
+    measure: '体积 CBM',
+    wm: 'W/M 计费吨（重量与体积取大）',
+  },
+  landFreightBasis: {
+    per_ton: '按吨',
+    per_trip: '按车次（每柜一车）',
+  },
+  extraChargeBasis: {
+    shipment: '每票',
+    container: '每柜',
+    ton: '每吨',
+    bag: '每袋',
+  },
+  priceAdjustment: {
+    pct_of_sell: '售价比例',
+    usd_per_bag: 'USD/袋',
   },
   innerPack: {
     none: '不装箱',
@@ -149,7 +231,13 @@ const adminZh = {
     idle: '空闲',
   },
   hint: {
-    landFreight: '国内段费用按 RMB/吨 维护，可在报价页临时覆盖本次每吨运费。',
+    landFreight: '国内段费用可按吨或按车次维护；按车次仅用于 FCL，运费 = 每车运费 × 柜数。未指定工厂的规则按距离区间匹配工厂的距离区间（在工厂表维护），留空为通用规则。报价页可临时覆盖每吨运费，覆盖后按吨计算。',
+    oceanFreight: '海运费按 起运港 → 目的港 维护：FCL 为每柜基础运费，LCL 为基础运费 + 每吨运费；起运港留空表示通用规则。',
+    currencies: 'USD 固定使用设置中的报价汇率，无需在此维护；其他币种的售价按 RMB 折算后在该币种上取整。',
+    setupCharges: '印版费、模具费等按单次订单全额摊入每袋成本；订单袋数低于起订量时报价页会提示。',
+    portCharges: 'LCL 规则可选计费口径：重量吨、体积（CBM）、W/M 计费吨（重量与体积取大）。三种口径统一为“基础费用含首个计费单位 + 超出部分按整单位计费”，体积超出部分按每方费用，其余按超吨费用。最低计费数量的单位随口径。',
+    extraCharges: '商检、产地证、熏蒸、报关、电放等费用；起运港、客户、目的国留空表示不限，勾选“自动带入”的费用在报价时按适用范围默认计入，报价页可增减。目的国与港口表中的国家/地区名称一致。',
+    palletSpecs: '托盘体积只填托盘本身，装货后的单托体积按每箱体积自动累加；单柜托盘位在装柜吨数表中维护。',
     theme: '主题切换会立即应用到全局界面，并在保存后持久化。',
   },
   select: {
@@ -158,6 +246,11 @@ const adminZh = {
     packaging: '请选择包装方案',
     port: '请选择港口',
     innerPack: '请选择内包装',
+    currency: '跟随报价页',
+    allPackaging: '通用（全部包装）',
+    noAdjustment: '无',
+    anyPort: '不限港口',
+    anyCustomer: '不限客户',
   },
   theme: {
     classic: 'Classic Admin (稳重)',
@@ -176,6 +269,23 @@ const adminZh = {
     quoteDaysPositive: '报价有效期天数必须 > 0',
     rmbDecimals: 'RMB 小数位数必须为非负整数',
     usdDecimals: 'USD 小数位数必须为非负整数',
+    insuranceRange: 'CIF 保险费率必须在 [0, 0.9) 范围内',
+    fixedProfitNonNegative: '固定利润额必须 >= 0',
+    priceStepPositive: '价格档位必须 > 0',
+    currencyRatePositive: '汇率必须 > 0',
+    currencyDecimals: '报价小数位必须为非负整数',
+    currencyUsdReserved: 'USD 使用设置中的报价汇率，不能在币种表中维护',
+    duplicateCurrency: '币种代码 {code} 重复',
+    setupAmountNonNegative: '一次性费用金额必须 >= 0',
+    moqPositive: '起订量必须为正整数',
+    cartonsPerPalletPositive: '每托箱数必须为正整数',
+    palletNonNegative: '托盘成本、自重与体积必须 >= 0',
+    maxPalletsPositive: '最大托盘位必须为正整数',
+    extraAmountNonNegative: '附加费用金额必须 >= 0',
+    lclChargeNonNegative: '每方费用与最低计费数量必须 >= 0',
+    perTripFclOnly: '按车次计价仅适用于 FCL',
+    perTripNonNegative: '按车次计价时每车运费必须 >= 0',
+    priceAdjustmentRange: '{field}必须 >= 0，按售价比例时须小于 1',
   },
   statusText: {
     loadingData: '加载中...',
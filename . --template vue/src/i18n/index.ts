@@ -21,3 +21,11 @@ export function t(key: string): string {
   console.warn(`[i18n] missing key: ${key}`)
   return key
 }
+
+export function tf(key: string, params: Record<string, string | number>): string {
+  const tpl = t(key)
+  return Object.entries(params).reduce(
+    (acc, [k, v]) => acc.replace(new RegExp(`\\{${k}\\}`, 'g'), String(v)),
+    tpl,
+  )
+}
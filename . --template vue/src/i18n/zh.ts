@@ -19,6 +19,7 @@ const zh = {
     operationLogs: '操作日志',
     close: '关闭',
     noOperations: '暂无操作记录',
+    landOverrideLog: '国内运费覆盖 {rate} RMB/吨：{reason}',
   },
   quote: {
     sectionProduct: '产品',
@@ -43,6 +44,7 @@ const zh = {
     factoryCostRequired: '请维护工厂吨成本',
     fxMustPositive: '汇率必须大于 0',
     marginRange: '毛利率必须在 [0,1) 范围内',
+    markupRange: '加价率必须为非负数',
     lclQtyRequired: 'LCL 模式需要输入吨数或袋数',
     customWeightRequired: '每袋重量必须大于 0',
     customUnitsInvalid: '每箱袋数必须为非负整数',
@@ -62,9 +64,48 @@ const zh = {
     container: '柜型',
     fxRate: '汇率',
     margin: '毛利率',
+    markup: '加价率',
+    pricingFormula: '定价公式',
+    fixedProfitRange: '固定利润必须为非负数',
     landFreight: '每吨国内运费到港（RMB/吨）',
+    incoterm: '贸易术语',
+    destinationPort: '目的港',
+    sellCurrency: '报价币种',
+    palletized: '托盘装运',
+    palletSpec: '托盘规格',
+    selectPalletSpec: '请选择托盘规格',
+    palletSpecRequired: '托盘装运需要选择托盘规格',
+    palletNeedsCarton: '托盘装运需要包装方案维护每箱袋数',
+    repeatOrder: '返单（免收可免的一次性费用）',
+    extraCharges: '附加费用',
+    noExtraCharges: '无适用的附加费用',
+    extraChargeOption: '{name}（{amount} RMB {basis}）',
+    extraChargeBasis: {
+      shipment: '每票',
+      container: '每柜',
+      ton: '每吨',
+      bag: '每袋',
+    },
+    commission: '佣金',
+    discount: '折扣',
+    commissionRange: '佣金必须为非负数，按售价比例时须小于 1',
+    discountRange: '折扣必须为非负数，按售价比例时须小于 1',
+    priceAdjustment: {
+      none: '无',
+      pct_of_sell: '售价比例',
+      usd_per_bag: 'USD/袋',
+    },
+    selectDestinationPort: '请选择目的港',
+    destinationNotNeeded: 'CFR/CIF 时填写',
+    destinationRequired: 'CFR/CIF 报价需要选择目的港',
     defaultValue: '默认',
     unconfiguredDefaultZero: '未配置时默认 0',
+    defaultPerTrip: '默认按车次 {rate} RMB/车，填写后改按每吨',
+    landOverrideRange: '{container_type} 规则范围 {min}–{max} RMB/吨',
+    landOverrideReason: '覆盖原因',
+    landOverrideReasonPlaceholder: '填写覆盖国内运费的原因',
+    landOverrideReasonRequired: '覆盖国内运费时需填写原因',
+    landOverrideBlocked: '覆盖的国内运费超出 {container_type} 规则范围 {min}–{max} RMB/吨，仅管理员可越界报价',
     costPerTon: '吨成本：',
     selectProduct: '请选择产品',
     selectFactory: '请选择工厂',
@@ -72,6 +113,21 @@ const zh = {
     maintainFactoryCost: '请维护工厂吨成本。',
     recommendation: '推荐箱规：',
     noCarton: '不装箱',
+    document: {
+      title: '报价单（多产品）',
+      empty: '尚未添加产品行。选择产品、包装与数量后点击“加入报价单”。',
+      addLine: '加入报价单',
+      removeLine: '移除',
+      calc: '计算报价单',
+      export: '导出报价单（Excel）',
+      qtyRequired: '加入报价单前请输入吨数或袋数',
+      resultTitle: '报价单明细',
+      product: '产品',
+      amountUsd: '金额（USD）',
+      total: '合计',
+      containerFill: '合计装柜率 ',
+      amountInCurrency: '报价币种合计：',
+    },
     unit: {
       usdPerBag: 'USD/袋',
       rmbPerBag: 'RMB/袋',
@@ -96,16 +152,172 @@ const zh = {
       cartonPriceRmb: '每箱纸箱成本（RMB）',
       innerPackType: '内包装类型',
     },
+    warning: {
+      container_load_rule_missing: '缺少该产品 {container_type} 的装柜规则，已按默认值 {fallback_tons} 吨计算。',
+      container_load_rule_invalid: '该产品 {container_type} 的装柜吨数未维护或无效，已按默认值 {fallback_tons} 吨计算。',
+      fcl_port_rule_missing: '缺少 {container_type} 的 FCL 港杂规则，已按默认值 {fallback_rmb} RMB 计算。',
+      lcl_port_rule_missing: '未配置 LCL 港杂规则，请在 Admin 中维护。',
+      lcl_cbm_missing: 'LCL 港杂按体积或 W/M 计费，但包装方案未维护体积数据，已按 1 吨折 1 CBM 估算。',
+      lcl_port_exceeds_fcl: '当前 LCL 港杂约为 {lcl_port_rmb} RMB，已高于同吨数的 FCL 港杂 {fcl_port_rmb} RMB，建议选择 FCL。',
+      ocean_freight_rule_missing: '缺少目的港 {destination_port_id} 的 {mode} 海运费规则，已按 {fallback_usd} USD 计算。',
+      land_freight_rule_missing: '缺少 {container_type} 的 {mode} 国内段运费规则，已按默认值 {fallback_rmb_per_ton} RMB/吨计算。',
+      container_volume_limited: '{container_type} 按体积装载上限 {max_cbm} CBM 折合 {volume_tons} 吨，低于重量上限 {weight_tons} 吨，已按体积限制计算装柜。',
+      container_pallet_limited: '{container_type} 受托盘位限制，每柜 {pallets} 托，折合 {pallet_tons} 吨（重量上限 {weight_tons} 吨）。',
+      setup_moq_not_met: '{name} 的起订量为 {moq} 袋，本单仅 {bags} 袋，一次性费用摊销偏高，请确认是否按起订量生产。',
+      auto_switched_to_lcl: '您输入的吨数小于该产品默认装柜吨数（{max_tons} 吨），系统已自动切换为 LCL 进行计算。',
+      land_override_out_of_range: '覆盖的国内运费 {value} RMB/吨 超出 {container_type} 规则范围 {min_rmb_per_ton}–{max_rmb_per_ton} RMB/吨。',
+      auto_lcl_zero_land_freight: '系统已自动切换为 LCL，但当前国内段运费为 0 RMB/吨。请在 Admin 维护规则或输入覆盖值。',
+      document_auto_switched_to_lcl: '报价单合计装柜率为 {fill_pct}%，不足一整柜，系统已自动切换为 LCL 进行计算。',
+      target_unreachable: '目标单价 {target} USD 低于该参数取最小值 {min_value} 时的报价 {min_sell_usd} USD，无法达成。',
+      target_below_margin_floor: '达成目标单价所需的定价参数为 {solved_value}，低于当前底线 {floor}。',
+      factory_cost_missing: '工厂 {factory_name} 未维护该产品的有效成本。',
+      factory_quote_failed: '工厂 {factory_name} 计算失败：{message}',
+      shipping_option_failed: '{option} 方案计算失败：{message}',
+      price_break_failed: '数量 {quantity} 档位计算失败：{message}',
+      fill_suggestion_failed: '建议数量 {bags} 袋计算失败：{message}',
+    },
+    shippingOptions: {
+      title: '运输方案对比',
+      hint: '按当前产品与数量，对配柜顺序中的各柜型整柜及 LCL 分别报价。',
+      run: '对比运输方案',
+      resultTitle: '运输方案对比',
+      containerCount: '柜数',
+      utilization: '装载率',
+      amountUsd: '总金额（USD）',
+      addAlternative: '加入导出',
+      removeAlternative: '移出导出',
+      exportHint: '已加入的方案将作为备选报价列在导出报价单中，不计入合计。',
+    },
+    priceLadder: {
+      title: '阶梯报价',
+      hint: '输入多个数量档位，每档分别计算柜数与整柜/拼箱方式；按吨或袋报价时不足整柜的档位自动按 LCL 计算。',
+      unit: '数量单位',
+      units: {
+        containers: '柜数',
+        tons: '吨数',
+        bags: '袋数',
+      },
+      quantities: '数量档位（逗号分隔）',
+      run: '计算阶梯报价',
+      export: '导出阶梯报价单',
+      resultTitle: '阶梯报价结果',
+      shipping: '运输方式',
+      amount: '总金额',
+    },
+    trace: {
+      show: '查看计算过程',
+      hide: '收起计算过程',
+      step: '步骤',
+      formula: '公式',
+      inputs: '输入',
+      records: '记录',
+      result: '结果',
+      steps: {
+        quantity: '袋数',
+        containers: '柜数',
+        raw_material: '原料（RMB/袋）',
+        bag_material: '袋材（RMB/袋）',
+        carton: '纸箱（RMB/袋）',
+        pallet: '托盘（RMB/袋）',
+        setup: '一次性费用（RMB/袋）',
+        extra_charge: '附加费用（RMB/袋）',
+        land_freight: '国内段运费（RMB）',
+        port_charges: '港杂（RMB）',
+        domestic_total: '国内总成本（RMB/袋）',
+        rebate: '出口退税（RMB/袋）',
+        net_cost: '净成本（USD/袋）',
+        pricing: 'FOB 单价（USD/袋）',
+        ocean_freight: '海运费（USD）',
+        list_price: '标价（USD/袋）',
+        sell_price: '成交单价（销售币种/袋）',
+        gross_profit: '毛利（RMB/袋）',
+      },
+    },
+    fillSuggestion: {
+      title: '整柜 / 整箱建议',
+      hint: '按当前数量给出前后最近的整柜与整箱数量及对应报价，点击“应用”回填数量后重新计算。',
+      fullContainer: '整柜 {count} 柜',
+      wholeCarton: '整箱 {cartons} 箱',
+      suggestion: '建议',
+      tons: '吨数',
+      apply: '应用',
+    },
+    factoryCompare: {
+      title: '工厂对比',
+      hint: '按当前产品、包装、数量与柜型，对所有维护了该产品成本的工厂分别报价；国内运费与包材价格取各工厂自身规则。',
+      run: '对比所有工厂',
+      resultTitle: '工厂对比结果',
+      sortNet: '按每袋净成本排序',
+      sortGp: '按总毛利排序',
+      factory: '工厂',
+      netPerBag: '净成本（RMB/袋）',
+      gpTotal: '总毛利（RMB）',
+      current: '（当前）',
+      use: '选用',
+    },
+    sensitivity: {
+      title: '敏感性分析',
+      rowAxis: '行变量',
+      colAxis: '列变量',
+      from: '起始值',
+      to: '结束值',
+      steps: '档数',
+      run: '生成网格',
+      export: '导出网格',
+      resultTitle: '敏感性分析网格',
+      axis: {
+        fx_rate: '汇率',
+        pricing_value: '毛利 / 利润参数',
+        factory_cost_pct: '工厂成本变动',
+      },
+      metric: {
+        sell_usd_per_bag: '销售单价（USD/袋）',
+        gp_rmb_total: '总毛利（RMB）',
+      },
+    },
+    target: {
+      title: '目标价反推',
+      price: '目标单价（USD/袋）',
+      solveFor: '反推参数',
+      pricingValue: '毛利 / 利润参数',
+      factoryCost: '工厂成本（RMB/吨）',
+      landFreight: '国内运费（RMB/吨）',
+      solve: '反推',
+      priceRequired: '请输入大于 0 的目标单价',
+      resultTitle: '目标价反推结果',
+      solvedValue: '反推值：',
+      baselineValue: '当前值：',
+      infeasible: '目标单价无法达成',
+      belowFloor: '低于当前毛利底线',
+      meetsFloor: '满足当前毛利底线',
+    },
     result: {
       summary: '汇总',
       breakdown: '费用明细',
       warnings: '提示 / 警告',
       fillHint: '填写参数后点击“计算报价”。',
       mode: '运输模式：',
+      incoterm: '贸易术语：',
+      pricingFormula: '定价公式：',
+      rounding: '单价取整：',
+      amountUsd: '总金额（USD）：',
+      sellCurrency: '报价币种：',
+      sellCurrencyValue: '{code}（1 {code} = {rate} RMB），总金额 {amount}',
       container: '柜型：',
       tons: '实际吨数：',
       bags: '实际袋数：',
       cartons: '实际箱数：',
+      totalCbm: '总体积（CBM）：',
+      containerLimit: '装柜限制：',
+      containerLimitValue: '{limit}，单柜 {max_tons} 吨',
+      containerLimitBy: {
+        weight: '重量',
+        volume: '体积',
+        pallet: '托盘位',
+      },
+      pallets: '托盘数：',
+      palletsValue: '{pallets} 托，单柜 {per_container} 托',
+      utilization: '每柜装载率：',
       netCost: '净成本：',
       bagSource: '袋材来源：',
       cartonSource: '箱材来源：',
@@ -116,16 +328,47 @@ const zh = {
       sourceDefault: '使用默认',
       sourceOverride: '使用覆盖（含 0 覆盖）',
       sourceCustom: '使用自定义',
+      factoryCost: '工厂报价',
+      factoryCostValue: '{value}/{unit}（折合 {per_ton}/吨）',
       raw: '原料（RMB/袋）',
       bagMat: '袋材（RMB/袋）',
       carton: '纸箱（RMB/袋）',
+      pallet: '托盘（RMB/袋）',
+      setup: '一次性费用摊销（RMB/袋）',
+      setupValue: '{per_bag}（合计 {total}）',
+      lclChargeable: 'LCL 港杂计费数量',
+      lclChargeableValue: '{qty} {unit}（合计 {total}）',
+      lclUnit: {
+        weight: '吨',
+        measure: 'CBM',
+        wm: '计费吨 (W/M)',
+      },
+      landOverride: '国内运费覆盖',
+      landOverrideValue: '{rate}/吨（{reason}）',
+      landLeg: '国内段计费（{container_type}）',
+      landLegZone: '国内段计费（{container_type}，{zone}）',
+      landLegValue: {
+        per_ton: '按吨 {rate} × {quantity} 吨（合计 {total}）',
+        per_trip: '按车次 {rate} × {quantity} 车（合计 {total}）',
+      },
+      extraCharge: '{name}（{basis}，RMB/袋）',
+      extraChargeValue: '{per_bag}（合计 {total}）',
       landPerBag: '国内段（RMB/袋）',
       landPerTon: '每吨国内运费（RMB/吨）',
       landTotal: '国内段总费用（RMB）',
       port: '港杂（RMB/袋）',
       domestic: '国内总成本（RMB/袋）',
+      purchaseExVat: '不含税采购价（RMB/袋）',
+      purchaseVat: '采购增值税（RMB/袋）',
       rebate: '退税（RMB/袋）',
+      rebateSimplified: '退税（简易口径，RMB/袋）',
       net: '净成本（RMB/袋）',
+      fobPrice: 'FOB 单价（USD/袋）',
+      oceanFreight: '海运费（USD/袋）',
+      insurance: '保险费（USD/袋）',
+      commission: '佣金（USD/袋）',
+      listPrice: '折前售价（USD/袋）',
+      discount: '折扣（USD/袋）',
     },
   },
 } as const
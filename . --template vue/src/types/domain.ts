@@ -1,6 +1,27 @@
 export type Mode = 'FCL' | 'LCL'
-export type ContainerType = '20GP' | '40HQ'
+export type ContainerType = '20GP' | '40HQ' | '40FT'
+export type Incoterm = 'EXW' | 'FOB' | 'CFR' | 'CIF'
+export type RoundingPolicy = 'ceil' | 'half_up' | 'floor' | 'step'
+export type PricingFormulaMode =
+  | 'divide'
+  | 'multiply'
+  | 'fixed_usd_per_bag'
+  | 'fixed_usd_per_ton'
+  | 'fixed_rmb_per_bag'
+  | 'fixed_rmb_per_ton'
 export type QtyInputType = 'bags' | 'tons'
+export type LoadBasis = 'tons' | 'cbm'
+export type OverflowStrategy = 'upgrade_then_split' | 'split_same_type' | 'best_fit'
+export type FactoryCostUnit = 'ton' | 'bag' | 'piece' | 'carton'
+// vat_invoice：工厂开具增值税专票，按不含税采购价退税；simplified：按含税采购价直接乘退税率。
+export type RebateMode = 'vat_invoice' | 'simplified'
+// 佣金与折扣的计算口径：pct_of_sell 为成交单价的比例，usd_per_bag 为每袋固定美元金额。
+export type PriceAdjustmentBasis = 'pct_of_sell' | 'usd_per_bag'
+// LCL 港杂计费口径：weight 按重量吨；measure 按 CBM；wm 按计费吨（重量吨与 CBM 取大，1 CBM 折 1 计费吨）。
+export type LclChargeBasis = 'weight' | 'measure' | 'wm'
+export type ExtraChargeBasis = 'shipment' | 'container' | 'ton' | 'bag'
+// 国内段运费计价方式：per_ton 按吨；per_trip 按车次（整柜每柜一车，仅 FCL）。
+export type LandFreightBasis = 'per_ton' | 'per_trip'
 export type InnerPackType = 'none' | 'carton' | 'woven_bag' | 'small_box' | 'big_box'
 export type UserRole = 'admin' | 'sales' | 'audit'
 export interface UserProfile {
@@ -26,8 +47,14 @@ export interface Settings {
     rmb_decimals: number
     usd_decimals: number
   }
-  pricing_formula_mode: string
-  rounding_policy: string
+  pricing_formula_mode: PricingFormulaMode
+  fixed_profit_value?: number
+  rounding_policy: RoundingPolicy
+  price_step?: number
+  load_basis_default?: LoadBasis
+  overflow_strategy?: OverflowStrategy
+  container_planning_sequence?: ContainerType[]
+  insurance_pct?: number
   terms_template: string
   user_profiles?: UserProfile[]
   active_user_profile_id?: string
@@ -60,6 +87,16 @@ export interface PackagingOption {
   default_selected?: boolean
 }
 
+// 一次性费用（印版费、模具费等），全额摊入单次订单；waived_on_repeat 为 true 时返单免收。
+export interface SetupCharge {
+  id: string
+  packaging_option_id: string
+  name: string
+  amount_rmb: number
+  moq_bags: number | null
+  waived_on_repeat: boolean
+}
+
 export interface PackagingRecommendation {
   id: string
   product_id: string
@@ -73,6 +110,9 @@ export interface Factory {
   id: string
   name: string
   default_port_id: string | null
+  rebate_mode?: RebateMode
+  // 工厂到起运港的距离区间，用于匹配分区国内运费规则。
+  land_zone?: string | null
 }
 
 export interface FactoryProductCost {
@@ -80,7 +120,7 @@ export interface FactoryProductCost {
   factory_id: string
   product_id: string
   cost_rmb_per_ton: number
-  cost_unit?: 'ton' | 'bag' | 'piece' | 'carton'
+  cost_unit?: FactoryCostUnit
 }
 
 export interface Port {
@@ -96,7 +136,45 @@ export interface PortChargesRule {
   mode: Mode
   container_type: ContainerType | null
   base_rmb: number
+  // weight 口径下基础费用含首吨；wm 口径下为每计费吨单价。
   extra_rmb_per_ton: number
+  // 以下仅用于 LCL；lcl_basis 为空时按 weight 计算。
+  lcl_basis?: LclChargeBasis | null
+  extra_rmb_per_cbm?: number | null
+  // 最低计费数量，单位随 lcl_basis（吨、CBM 或计费吨）。
+  min_chargeable?: number | null
+}
+
+// 商检、产地证、熏蒸、报关、电放等附加费用；port_id（起运港）、customer_id、country（目的国）为空表示不限。
+// auto_apply 为 true 的费用在报价时按适用范围自动带入。
+export interface ExtraCharge {
+  id: string
+  name: string
+  amount_rmb: number
+  basis: ExtraChargeBasis
+  port_id: string | null
+  customer_id: string | null
+  country: string | null
+  auto_apply: boolean
+}
+
+export interface OceanFreightRule {
+  id: string
+  pol_port_id: string | null
+  destination_port_id: string
+  mode: Mode
+  container_type: ContainerType | null
+  base_usd: number
+  extra_usd_per_ton: number
+}
+
+// 汇率为 1 单位该币种折合的 RMB；USD 始终使用报价汇率 fx_rate。
+export interface Currency {
+  id: string
+  code: string
+  name: string
+  rate_to_rmb: number
+  decimals: number
 }
 
 export interface ContainerLoadRule {
@@ -104,6 +182,21 @@ export interface ContainerLoadRule {
   product_id: string
   container_type: ContainerType
   max_tons: number
+  max_cbm?: number | null
+  // 托盘装运时单柜可放托盘数（受地板面积限制）；为空时只按重量与体积计算。
+  max_pallets?: number | null
+}
+
+// 托盘规格；packaging_option_id 为空时适用于所有包装。
+export interface PalletSpec {
+  id: string
+  name: string
+  pallet_type: string
+  packaging_option_id: string | null
+  cartons_per_pallet: number
+  pallet_cost_rmb: number
+  pallet_weight_kg: number
+  pallet_cbm: number
 }
 
 export interface LandFreightRule {
@@ -114,6 +207,10 @@ export interface LandFreightRule {
   min_rmb_per_ton: number
   max_rmb_per_ton: number
   default_rmb_per_ton: number
+  basis?: LandFreightBasis | null
+  rmb_per_trip?: number | null
+  // 未指定工厂时按工厂的 land_zone 匹配。
+  zone?: string | null
 }
 
 export interface FactoryPackagingOverride {
@@ -129,7 +226,12 @@ export interface Customer {
   name: string
   contact?: string | null
   default_port_id?: string | null
+  default_currency?: string | null
   terms_template?: string | null
+  commission_basis?: PriceAdjustmentBasis | null
+  commission_value?: number | null
+  discount_basis?: PriceAdjustmentBasis | null
+  discount_value?: number | null
 }
 
 export interface CalculationHistory {
@@ -144,10 +246,15 @@ export interface AppData {
   products: Product[]
   packaging_options: PackagingOption[]
   packaging_recommendations: PackagingRecommendation[]
+  setup_charges: SetupCharge[]
   factories: Factory[]
   factory_product_costs: FactoryProductCost[]
   ports: Port[]
   port_charges_rules: PortChargesRule[]
+  extra_charges: ExtraCharge[]
+  ocean_freight_rules: OceanFreightRule[]
+  currencies: Currency[]
+  pallet_specs: PalletSpec[]
   container_load_rules: ContainerLoadRule[]
   land_freight_rules: LandFreightRule[]
   factory_packaging_overrides: FactoryPackagingOverride[]
@@ -159,10 +266,15 @@ export type EditableTableKey =
   | 'products'
   | 'packaging_options'
   | 'packaging_recommendations'
+  | 'setup_charges'
   | 'factories'
   | 'factory_product_costs'
   | 'ports'
   | 'port_charges_rules'
+  | 'extra_charges'
+  | 'ocean_freight_rules'
+  | 'currencies'
+  | 'pallet_specs'
   | 'container_load_rules'
   | 'land_freight_rules'
   | 'factory_packaging_overrides'
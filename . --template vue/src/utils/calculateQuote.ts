@@ -1,12 +1,26 @@
 import type {
   AppData,
   ContainerType,
+  ExtraCharge,
+  ExtraChargeBasis,
   Factory,
+  FactoryCostUnit,
+  FactoryProductCost,
+  Incoterm,
+  LandFreightBasis,
   LandFreightRule,
+  LclChargeBasis,
   Mode,
+  OceanFreightRule,
   PackagingOption,
+  PalletSpec,
+  PortChargesRule,
+  PriceAdjustmentBasis,
+  PricingFormulaMode,
   Product,
   QtyInputType,
+  RebateMode,
+  RoundingPolicy,
 } from '@/types/domain'
 
 export interface CalculateQuoteInput {
@@ -18,6 +32,11 @@ export interface CalculateQuoteInput {
   container_type: ContainerType
   fx_rate: number
   margin_pct: number
+  pricing_formula_mode?: PricingFormulaMode
+  fixed_profit_value?: number
+  rounding_policy?: RoundingPolicy
+  price_step?: number
+  usd_decimals?: number
   qty_input_type?: QtyInputType
   qty_input_value?: number
   override_unit_weight_kg?: number
@@ -26,45 +45,292 @@ export interface CalculateQuoteInput {
   override_carton_price_rmb?: number
   override_inner_pack_type?: string
   land_fee_override_rmb_per_ton?: number
+  // 覆盖国内运费的原因，随报价结果留存备查。
+  land_fee_override_reason?: string | null
+  land_override_policy?: LandOverridePolicy
   container_count?: number
+  // 混装柜型组合（如 1×40HQ + 1×20GP），给定时忽略 container_type 与 container_count。
+  container_mix?: ContainerMixEntry[]
+  // 为 true 时按所选 FCL 柜型计价，不因吨数不足整柜自动切换为 LCL。
+  keep_fcl?: boolean
+  incoterm?: Incoterm
+  destination_port_id?: string | null
+  insurance_pct?: number
+  sell_currency?: string
+  // 佣金计入成本并转嫁到标价；折扣在标价基础上让利，直接减少毛利。
+  commission?: PriceAdjustment | null
+  discount?: PriceAdjustment | null
+  // 托盘装运时选用的托盘规格；为空表示散箱装柜。
+  pallet_spec_id?: string | null
+  // 返单时免收标记为 waived_on_repeat 的一次性费用。
+  repeat_order?: boolean
+  customer_id?: string | null
+  // 选中的附加费用；未指定时按适用范围带入 auto_apply 的费用。
+  extra_charge_ids?: string[] | null
+  shipment?: QuoteShipmentShare
+  // 为 true 时在结果中附带逐步计算过程。
+  trace?: boolean
+}
+
+export type ContainerLimit = 'weight' | 'volume' | 'pallet'
+
+export interface ContainerCapacity {
+  // 生效的单柜吨数，取重量上限与体积上限折算吨数中的较小值。
+  max_tons: number
+  weight_max_tons: number
+  max_cbm: number | null
+  volume_max_tons: number | null
+  limit: ContainerLimit
+  // 托盘装运时的单柜托盘数；散箱装柜为 null。
+  pallets_per_container: number | null
+}
+
+// 满托时单托的货物净重、含托盘自重的毛重与装货后体积。
+export interface PalletLoad {
+  cartons_per_pallet: number
+  cargo_tons: number
+  gross_tons: number
+  cbm: number | null
+}
+
+// 覆盖的每吨国内运费超出规则上下限时：block 拒绝计算，warn 记为 critical 警告。
+export type LandOverridePolicy = 'block' | 'warn'
+
+export interface PriceAdjustment {
+  basis: PriceAdjustmentBasis
+  value: number
+}
+
+export interface ContainerMixEntry {
+  container_type: ContainerType
+  count: number
+}
+
+// 多行报价单由 calculateQuoteDocument 统一规划柜数与港杂，单行只按 load_share 分摊。
+export interface QuoteShipmentShare {
+  mode: Mode
+  container_count: number
+  load_share: number
+  fcl_port_total_rmb: number
+  lcl_port_total_rmb: number | null
+  lcl_port_charge?: LclPortCharge | null
+  ocean_freight_usd_total: number
+  // 报价单内同一包装方案各行的合计袋数；一次性费用按此分摊一次，MOQ 也按此判断。
+  setup_bags_int?: number
+}
+
+export interface LclPortCharge {
+  basis: LclChargeBasis
+  // 计费数量（吨、CBM 或计费吨），已计入最低计费数量。
+  chargeable_qty: number
+  total_rmb: number
+}
+
+export interface ExtraChargeLine {
+  id: string
+  name: string
+  basis: ExtraChargeBasis
+  amount_rmb: number
+  // 计费数量：票数与柜数已按 load_share 分摊，吨数与袋数为本行数量。
+  quantity: number
+  total_rmb: number
+  rmb_per_bag: number
+}
+
+export interface LandFreightBounds {
+  min_rmb_per_ton: number
+  max_rmb_per_ton: number
+}
+
+export interface LandFreightRate {
+  basis: LandFreightBasis
+  // per_ton 为 RMB/吨，per_trip 为 RMB/车次。
+  rate_rmb: number
+  zone: string | null
+  // 匹配规则的每吨运费上下限；无规则或未配置上限时为 null。
+  bounds: LandFreightBounds | null
+}
+
+export interface LandFreightOverride {
+  rmb_per_ton: number
+  reason: string | null
+  within_bounds: boolean
+}
+
+export interface LandFreightLeg extends LandFreightRate {
+  container_type: ContainerType
+  // 吨数或车次；报价单中车次已按 load_share 分摊。
+  quantity: number
+  total_rmb: number
 }
 
 export interface QuoteBreakdown {
   raw_rmb_per_bag: number
   bag_mat_rmb_per_bag: number
   carton_rmb_per_bag: number
+  pallet_rmb_per_bag: number
+  setup_rmb_per_bag: number
+  setup_total_rmb: number
+  extra_charges: ExtraChargeLine[]
+  extra_rmb_per_bag: number
+  extra_total_rmb: number
   land_rmb_per_bag: number
+  // 按车次计价时为折算后的每吨运费。
   land_rmb_per_ton_used: number
   land_total_rmb: number
+  land_freight_legs: LandFreightLeg[]
+  land_override: LandFreightOverride | null
   port_rmb_per_bag: number
   domestic_total_rmb_per_bag: number
+  rebate_mode: RebateMode
+  purchase_ex_vat_rmb_per_bag: number
+  purchase_vat_rmb_per_bag: number
   rebate_rmb_per_bag: number
   net_rmb_per_bag: number
+  ocean_freight_usd_per_bag: number
+  insurance_usd_per_bag: number
+  commission_usd_per_bag: number
+  // 折扣前标价与折扣金额（均为取整前）。
+  list_usd_per_bag: number
+  discount_usd_per_bag: number
+  factory_cost_unit: FactoryCostUnit
+  factory_cost_value: number
+  factory_cost_rmb_per_ton: number
 }
 
 export interface QuoteSummary {
   mode: Mode
   container_type: ContainerType
   container_count: number
+  // FCL 时的柜型组合；LCL 为空数组。
+  container_mix: ContainerMixEntry[]
+  container_max_tons: number
+  // 按柜依次装满时每柜的装载率；LCL 与报价单中的单行为空数组。
+  container_utilization: number[]
+  // 单柜装载受重量、体积还是托盘位限制；混装时取最先受限的约束（托盘位 > 体积 > 重量）。
+  container_limit: ContainerLimit
+  cbm_per_bag: number | null
+  total_cbm: number | null
+  pallet_spec_id: string | null
+  // 混装时为最大柜型的单柜托盘数。
+  pallets_per_container: number | null
+  pallets_int: number
   tons: number
   bags: number
+  bags_raw: number
   bags_int: number
+  cartons_raw: number
   cartons_int: number
+  incoterm: Incoterm
+  destination_port_id: string | null
   bag_price_source: 'default' | 'override' | 'custom'
   carton_price_source: 'default' | 'override' | 'custom'
   sell_usd_per_bag: number
+  sell_usd_per_bag_raw: number
+  amount_usd: number
+  sell_currency: string
+  sell_currency_rate_to_rmb: number
+  sell_currency_decimals: number
+  sell_price_per_bag: number
+  sell_price_per_bag_raw: number
+  amount: number
+  rounding_policy: RoundingPolicy
+  usd_decimals: number
+  // 仅 step 取整时有值，价格精度可能细于 usd_decimals。
+  price_step: number | null
+  fob_usd_per_bag: number
   net_rmb_per_bag: number
   cost_usd_per_bag: number
   gp_rmb_per_bag: number
   gp_rmb_total: number
   fcl_port_total_rmb: number
   lcl_port_total_rmb: number | null
+  lcl_port_charge: LclPortCharge | null
+  ocean_freight_usd_total: number
+  insurance_pct: number
+  commission: PriceAdjustment | null
+  discount: PriceAdjustment | null
+  pricing_formula_mode: PricingFormulaMode
+  pricing_value: number
+  load_share: number
+}
+
+export type QuoteWarningSeverity = 'info' | 'warn' | 'critical'
+export type QuoteWarningCode =
+  | 'container_load_rule_missing'
+  | 'container_load_rule_invalid'
+  | 'container_volume_limited'
+  | 'container_pallet_limited'
+  | 'fcl_port_rule_missing'
+  | 'lcl_port_rule_missing'
+  | 'lcl_port_exceeds_fcl'
+  | 'lcl_cbm_missing'
+  | 'ocean_freight_rule_missing'
+  | 'land_freight_rule_missing'
+  | 'land_override_out_of_range'
+  | 'setup_moq_not_met'
+  | 'auto_switched_to_lcl'
+  | 'auto_lcl_zero_land_freight'
+  | 'document_auto_switched_to_lcl'
+  | 'target_unreachable'
+  | 'target_below_margin_floor'
+  | 'factory_cost_missing'
+  | 'factory_quote_failed'
+  | 'shipping_option_failed'
+  | 'price_break_failed'
+  | 'fill_suggestion_failed'
+
+// 提示文案由界面按 code 通过 t('quote.warning.<code>') 渲染，params 用于填充占位符。
+export interface QuoteWarning {
+  code: QuoteWarningCode
+  severity: QuoteWarningSeverity
+  params: Record<string, string | number>
+}
+
+// direct 为按港口或工厂精确匹配，zone 为按距离区间匹配，global 为通用规则，any 为同柜型任意规则兜底。
+export type RuleMatchLevel = 'direct' | 'zone' | 'global' | 'any'
+
+interface RuleMatch<T> {
+  rule: T
+  level: RuleMatchLevel
+}
+
+export type QuoteTraceStepKey =
+  | 'quantity'
+  | 'containers'
+  | 'raw_material'
+  | 'bag_material'
+  | 'carton'
+  | 'pallet'
+  | 'setup'
+  | 'extra_charge'
+  | 'land_freight'
+  | 'port_charges'
+  | 'domestic_total'
+  | 'rebate'
+  | 'net_cost'
+  | 'pricing'
+  | 'ocean_freight'
+  | 'list_price'
+  | 'sell_price'
+  | 'gross_profit'
+
+export type QuoteTraceValue = string | number | boolean | null
+
+export interface QuoteTraceStep {
+  key: QuoteTraceStepKey
+  formula: string
+  // 规则命中层级、价格来源等也作为输入记录，如 source: 'global'。
+  inputs: Record<string, QuoteTraceValue>
+  record_ids: string[]
+  result: number
 }
 
 export interface CalculateQuoteResult {
   summary: QuoteSummary
   breakdown: QuoteBreakdown
-  warnings: string[]
+  warnings: QuoteWarning[]
+  trace?: QuoteTraceStep[]
 }
 
 const FALLBACK_FCL_PORT: Record<ContainerType, number> = {
@@ -73,6 +339,78 @@ const FALLBACK_FCL_PORT: Record<ContainerType, number> = {
   '40FT': 4200,
 }
 
+const PRICING_TRACE_FORMULA: Record<PricingFormulaMode, string> = {
+  divide: 'fob = cost_usd / (1 - pricing_value)',
+  multiply: 'fob = cost_usd × (1 + pricing_value)',
+  fixed_usd_per_bag: 'fob = cost_usd + pricing_value',
+  fixed_usd_per_ton: 'fob = cost_usd + pricing_value × tons_per_bag',
+  fixed_rmb_per_bag: 'fob = cost_usd + pricing_value / fx_rate',
+  fixed_rmb_per_ton: 'fob = cost_usd + pricing_value × tons_per_bag / fx_rate',
+}
+
+// 三种计费基础同一口径：base_rmb 含首个计费单位（1 吨 / 1 CBM / 1 计费吨），超出部分不足 1 按 1 计。
+const LCL_PORT_TRACE_FORMULA: Record<LclChargeBasis, string> = {
+  weight: 'port = base_rmb + ceil(max(0, chargeable_qty - 1)) × extra_rmb_per_ton',
+  measure: 'port = base_rmb + ceil(max(0, chargeable_qty - 1)) × extra_rmb_per_cbm',
+  wm: 'port = base_rmb + ceil(max(0, chargeable_qty - 1)) × extra_rmb_per_ton',
+}
+
+const WARNING_SEVERITY: Record<QuoteWarningCode, QuoteWarningSeverity> = {
+  container_load_rule_missing: 'warn',
+  container_load_rule_invalid: 'warn',
+  container_volume_limited: 'info',
+  container_pallet_limited: 'info',
+  fcl_port_rule_missing: 'warn',
+  lcl_port_rule_missing: 'warn',
+  lcl_port_exceeds_fcl: 'warn',
+  lcl_cbm_missing: 'warn',
+  ocean_freight_rule_missing: 'warn',
+  land_freight_rule_missing: 'critical',
+  land_override_out_of_range: 'critical',
+  setup_moq_not_met: 'warn',
+  auto_switched_to_lcl: 'info',
+  auto_lcl_zero_land_freight: 'critical',
+  document_auto_switched_to_lcl: 'info',
+  target_unreachable: 'critical',
+  target_below_margin_floor: 'warn',
+  factory_cost_missing: 'critical',
+  factory_quote_failed: 'critical',
+  shipping_option_failed: 'critical',
+  price_break_failed: 'critical',
+  fill_suggestion_failed: 'critical',
+}
+
+export const BASE_SELL_CURRENCY = 'USD'
+
+// CIF 保险按发票金额的 110% 投保。
+const INSURANCE_COVERAGE = 1.1
+const DEFAULT_INSURANCE_PCT = 0.003
+const CAPACITY_EPSILON = 1e-9
+
+export function createQuoteWarning(
+  code: QuoteWarningCode,
+  params: Record<string, string | number> = {},
+): QuoteWarning {
+  return { code, severity: WARNING_SEVERITY[code], params }
+}
+
+// 返回替换了指定工厂产品吨成本的数据副本，用于反推与敏感性分析。
+export function withFactoryCostPerTon(
+  data: AppData,
+  productId: string,
+  factoryId: string,
+  costPerTon: number,
+): AppData {
+  return {
+    ...data,
+    factory_product_costs: data.factory_product_costs.map((item) =>
+      item.product_id === productId && item.factory_id === factoryId
+        ? { ...item, cost_rmb_per_ton: costPerTon, cost_unit: 'ton' }
+        : item,
+    ),
+  }
+}
+
 function assertFinite(value: number, field: string): void {
   if (!Number.isFinite(value)) {
     throw new Error(`${field} must be finite`)
@@ -117,50 +455,135 @@ function findFactory(data: AppData, factoryId: string): Factory {
   return factory
 }
 
-function findCostPerTon(data: AppData, productId: string, factoryId: string): number {
+function findFactoryCost(data: AppData, productId: string, factoryId: string): FactoryProductCost {
   const cost = data.factory_product_costs.find(
     (item) => item.product_id === productId && item.factory_id === factoryId,
   )
   if (!cost) throw new Error('Missing factory product cost')
+  assertPositive(Number(cost.cost_rmb_per_ton), 'cost_rmb_per_ton')
+  return cost
+}
+
+// cost_rmb_per_ton 字段按 cost_unit 计价，这里统一折算为每吨成本。
+export function resolveCostRmbPerTon(
+  cost: FactoryProductCost,
+  bagsPerTon: number,
+  unitsPerCarton: number | null,
+): number {
   const value = Number(cost.cost_rmb_per_ton)
-  assertPositive(value, 'cost_rmb_per_ton')
+  const unit = cost.cost_unit ?? 'ton'
+  if (unit === 'bag' || unit === 'piece') return value * bagsPerTon
+  if (unit === 'carton') {
+    if (!unitsPerCarton || unitsPerCarton <= 0) {
+      throw new Error('cost_unit carton requires units_per_carton > 0')
+    }
+    return value * (bagsPerTon / unitsPerCarton)
+  }
   return value
 }
 
-function resolveContainerMaxTons(
+export function resolveContainerMaxTons(
   data: AppData,
   productId: string,
   containerType: ContainerType,
-  warnings: string[],
+  warnings: QuoteWarning[],
 ): number {
   const rule = data.container_load_rules.find(
     (item) => item.product_id === productId && item.container_type === containerType,
   )
   if (!rule) {
-    warnings.push(`缺少该产品 ${containerType} 的装柜规则，已按默认值 20 吨计算。`)
+    warnings.push(createQuoteWarning('container_load_rule_missing', { container_type: containerType, fallback_tons: 20 }))
     return 20
   }
   const tons = Number(rule.max_tons)
   if (!Number.isFinite(tons) || tons <= 0) {
-    warnings.push(`该产品 ${containerType} 的装柜吨数未维护或无效，已按默认值 20 吨计算。`)
+    warnings.push(createQuoteWarning('container_load_rule_invalid', { container_type: containerType, fallback_tons: 20 }))
     return 20
   }
   return tons
 }
 
-function resolveFclPortSingleRmb(
+export function resolveContainerCapacity(
   data: AppData,
-  portId: string,
+  productId: string,
   containerType: ContainerType,
-  warnings: string[],
-): number {
+  cbmPerTon: number | null,
+  warnings: QuoteWarning[],
+  pallet: PalletLoad | null = null,
+): ContainerCapacity {
+  const weightMaxTons = resolveContainerMaxTons(data, productId, containerType, warnings)
+  const rule = data.container_load_rules.find(
+    (item) => item.product_id === productId && item.container_type === containerType,
+  )
+  const rawMaxCbm = Number(rule?.max_cbm ?? Number.NaN)
+  const maxCbm = Number.isFinite(rawMaxCbm) && rawMaxCbm > 0 ? rawMaxCbm : null
+  const volumeMaxTons = maxCbm !== null && cbmPerTon !== null && cbmPerTon > 0 ? maxCbm / cbmPerTon : null
+  const base = { weight_max_tons: weightMaxTons, max_cbm: maxCbm, volume_max_tons: volumeMaxTons }
+  if (pallet) {
+    // 整托装柜：托盘数同时受托盘位、含托盘自重的限重与含托盘体积的限方约束。
+    const rawMaxPallets = Number(rule?.max_pallets ?? Number.NaN)
+    const bySlots = Number.isFinite(rawMaxPallets) && rawMaxPallets > 0 ? Math.floor(rawMaxPallets) : Number.POSITIVE_INFINITY
+    const byWeight = Math.floor(weightMaxTons / pallet.gross_tons + CAPACITY_EPSILON)
+    const byVolume =
+      maxCbm !== null && pallet.cbm !== null ? Math.floor(maxCbm / pallet.cbm + CAPACITY_EPSILON) : Number.POSITIVE_INFINITY
+    const pallets = Math.min(bySlots, byWeight, byVolume)
+    if (pallets < 1) {
+      throw new Error(`pallet does not fit in ${containerType}`)
+    }
+    return {
+      ...base,
+      max_tons: pallets * pallet.cargo_tons,
+      limit: pallets === bySlots ? 'pallet' : byVolume < byWeight ? 'volume' : 'weight',
+      pallets_per_container: pallets,
+    }
+  }
+  if (volumeMaxTons === null) {
+    return { ...base, max_tons: weightMaxTons, limit: 'weight', pallets_per_container: null }
+  }
+  return {
+    ...base,
+    max_tons: Math.min(weightMaxTons, volumeMaxTons),
+    limit: volumeMaxTons < weightMaxTons ? 'volume' : 'weight',
+    pallets_per_container: null,
+  }
+}
+
+export function findPalletSpec(data: AppData, palletSpecId: string): PalletSpec {
+  const spec = (data.pallet_specs ?? []).find((item) => item.id === palletSpecId)
+  if (!spec) throw new Error(`Pallet spec not found: ${palletSpecId}`)
+  return spec
+}
+
+export function resolvePalletLoad(
+  spec: PalletSpec,
+  unitsPerCarton: number | null,
+  unitWeightKg: number,
+  cbmPerBag: number | null,
+): PalletLoad {
+  if (!unitsPerCarton || unitsPerCarton <= 0) {
+    throw new Error('palletized loading requires units_per_carton > 0')
+  }
+  const cartonsPerPallet = Math.floor(Number(spec.cartons_per_pallet))
+  assertPositive(cartonsPerPallet, 'cartons_per_pallet')
+  const palletWeightKg = safeNonNegative(spec.pallet_weight_kg)
+  const palletCbm = safeNonNegative(spec.pallet_cbm)
+  const cargoTons = (cartonsPerPallet * unitsPerCarton * unitWeightKg) / 1000
+  return {
+    cartons_per_pallet: cartonsPerPallet,
+    cargo_tons: cargoTons,
+    gross_tons: cargoTons + palletWeightKg / 1000,
+    cbm: cbmPerBag === null ? null : cartonsPerPallet * unitsPerCarton * cbmPerBag + palletCbm,
+  }
+}
+
+function matchFclPortRule(data: AppData, portId: string, containerType: ContainerType): RuleMatch<PortChargesRule> | null {
   const direct = data.port_charges_rules.find(
     (item) =>
       item.mode === 'FCL' &&
       item.container_type === containerType &&
       item.port_id === portId,
   )
-  if (direct) return safeNonNegative(direct.base_rmb, FALLBACK_FCL_PORT[containerType])
+  if (direct) return { rule: direct, level: 'direct' }
 
   const global = data.port_charges_rules.find(
     (item) =>
@@ -168,71 +591,500 @@ function resolveFclPortSingleRmb(
       item.container_type === containerType &&
       (item.port_id === null || item.port_id === ''),
   )
-  if (global) return safeNonNegative(global.base_rmb, FALLBACK_FCL_PORT[containerType])
-
-  warnings.push(`缺少 ${containerType} 的 FCL 港杂规则，已按默认值 ${FALLBACK_FCL_PORT[containerType]} RMB 计算。`)
-  return FALLBACK_FCL_PORT[containerType]
+  return global ? { rule: global, level: 'global' } : null
 }
 
-function resolveLclPortTotalRmb(
+export function resolveFclPortSingleRmb(
   data: AppData,
   portId: string,
   containerType: ContainerType,
-  tons: number,
-  warnings: string[],
+  warnings: QuoteWarning[],
 ): number {
+  const match = matchFclPortRule(data, portId, containerType)
+  if (match) return safeNonNegative(match.rule.base_rmb, FALLBACK_FCL_PORT[containerType])
+
+  warnings.push(
+    createQuoteWarning('fcl_port_rule_missing', {
+      container_type: containerType,
+      fallback_rmb: FALLBACK_FCL_PORT[containerType],
+    }),
+  )
+  return FALLBACK_FCL_PORT[containerType]
+}
+
+function matchLclPortRule(data: AppData, portId: string, containerType: ContainerType): RuleMatch<PortChargesRule> | null {
   const direct = data.port_charges_rules.find(
     (item) =>
       item.mode === 'LCL' &&
       item.port_id === portId &&
       (item.container_type === null || item.container_type === containerType),
   )
+  if (direct) return { rule: direct, level: 'direct' }
   const global = data.port_charges_rules.find(
     (item) =>
       item.mode === 'LCL' &&
       (item.port_id === null || item.port_id === '') &&
       (item.container_type === null || item.container_type === containerType),
   )
-  const rule = direct ?? global
+  return global ? { rule: global, level: 'global' } : null
+}
+
+function lclPortTotal(base: number, chargeable: number, rate: unknown): number {
+  return base + Math.ceil(Math.max(0, chargeable - 1)) * safeNonNegative(rate, 0)
+}
+
+function resolveLclPortCharge(
+  data: AppData,
+  portId: string,
+  containerType: ContainerType,
+  tons: number,
+  cbm: number | null,
+  warnings: QuoteWarning[],
+): LclPortCharge {
+  const rule = matchLclPortRule(data, portId, containerType)?.rule
   if (!rule) {
-    warnings.push('未配置 LCL 港杂规则，请在 Admin 中维护。')
-    return 0
+    warnings.push(createQuoteWarning('lcl_port_rule_missing'))
+    return { basis: 'weight', chargeable_qty: tons, total_rmb: 0 }
   }
+  const basis: LclChargeBasis = rule.lcl_basis || 'weight'
   const base = safeNonNegative(rule.base_rmb, 0)
-  const extra = safeNonNegative(rule.extra_rmb_per_ton, 0)
-  const extraTons = Math.max(0, tons - 1)
-  return base + Math.ceil(extraTons) * extra
+  const minChargeable = safeNonNegative(rule.min_chargeable, 0)
+  if (basis === 'weight') {
+    const chargeable = Math.max(tons, minChargeable)
+    return { basis, chargeable_qty: chargeable, total_rmb: lclPortTotal(base, chargeable, rule.extra_rmb_per_ton) }
+  }
+  if (basis !== 'measure' && basis !== 'wm') {
+    throw new Error(`Unsupported LCL charge basis: ${String(basis)}`)
+  }
+  // 缺少体积数据时按 1 吨折 1 CBM 估算。
+  if (cbm === null) {
+    warnings.push(createQuoteWarning('lcl_cbm_missing'))
+  }
+  const measured = cbm ?? tons
+  if (basis === 'measure') {
+    const chargeable = Math.max(measured, minChargeable)
+    return { basis, chargeable_qty: chargeable, total_rmb: lclPortTotal(base, chargeable, rule.extra_rmb_per_cbm) }
+  }
+  const chargeable = Math.max(tons, measured, minChargeable)
+  return { basis, chargeable_qty: chargeable, total_rmb: lclPortTotal(base, chargeable, rule.extra_rmb_per_ton) }
+}
+
+function matchOceanFreightRule(
+  data: AppData,
+  polPortId: string,
+  destinationPortId: string,
+  mode: Mode,
+  containerType: ContainerType,
+): RuleMatch<OceanFreightRule> | null {
+  const rules = data.ocean_freight_rules ?? []
+  const matches = (item: OceanFreightRule) =>
+    item.mode === mode &&
+    item.destination_port_id === destinationPortId &&
+    (mode === 'FCL'
+      ? item.container_type === containerType
+      : !item.container_type || item.container_type === containerType)
+  const direct = rules.find((item) => matches(item) && item.pol_port_id === polPortId)
+  if (direct) return { rule: direct, level: 'direct' }
+  const global = rules.find((item) => matches(item) && (item.pol_port_id === null || item.pol_port_id === ''))
+  return global ? { rule: global, level: 'global' } : null
+}
+
+export function resolveOceanFreightUsdTotal(
+  data: AppData,
+  polPortId: string,
+  destinationPortId: string,
+  mode: Mode,
+  containerType: ContainerType,
+  containerCount: number,
+  tons: number,
+  warnings: QuoteWarning[],
+): number {
+  const rule = matchOceanFreightRule(data, polPortId, destinationPortId, mode, containerType)?.rule
+  if (!rule) {
+    warnings.push(
+      createQuoteWarning('ocean_freight_rule_missing', {
+        destination_port_id: destinationPortId,
+        mode: mode === 'FCL' ? `${containerType} FCL` : 'LCL',
+        container_type: containerType,
+        fallback_usd: 0,
+      }),
+    )
+    return 0
+  }
+  const base = safeNonNegative(rule.base_usd, 0)
+  const extra = safeNonNegative(rule.extra_usd_per_ton, 0)
+  return mode === 'FCL' ? base * containerCount + extra * tons : base + extra * tons
+}
+
+export interface ExtraChargeScope {
+  pol_port_id: string
+  customer_id: string | null
+  country: string | null
+}
+
+// 目的国取目的港所在国家；未选目的港（如 FOB）时取客户默认港口所在国家。
+export function resolveExtraChargeScope(
+  data: AppData,
+  polPortId: string,
+  customerId: string | null | undefined,
+  destinationPortId: string | null | undefined,
+): ExtraChargeScope {
+  const customer = customerId ? data.customers.find((item) => item.id === customerId) : undefined
+  const countryPortId = destinationPortId || customer?.default_port_id || null
+  const country = countryPortId ? data.ports.find((item) => item.id === countryPortId)?.country?.trim() : null
+  return { pol_port_id: polPortId, customer_id: customer?.id ?? null, country: country || null }
+}
+
+function matchesScope(value: string | null | undefined, target: string | null): boolean {
+  if (value === null || value === undefined || value.trim() === '') return true
+  return target !== null && value.trim().toLowerCase() === target.toLowerCase()
+}
+
+export function findApplicableExtraCharges(data: AppData, scope: ExtraChargeScope): ExtraCharge[] {
+  return (data.extra_charges ?? []).filter(
+    (item) =>
+      matchesScope(item.port_id, scope.pol_port_id) &&
+      matchesScope(item.customer_id, scope.customer_id) &&
+      matchesScope(item.country, scope.country),
+  )
+}
+
+function resolveSelectedExtraCharges(
+  data: AppData,
+  selectedIds: string[] | null | undefined,
+  scope: ExtraChargeScope,
+): ExtraCharge[] {
+  if (!selectedIds) return findApplicableExtraCharges(data, scope).filter((item) => item.auto_apply)
+  return Array.from(new Set(selectedIds)).map((id) => {
+    const charge = (data.extra_charges ?? []).find((item) => item.id === id)
+    if (!charge) throw new Error(`extra charge not found: ${id}`)
+    return charge
+  })
+}
+
+const ROUNDING_EPSILON = 1e-9
+
+interface RoundingOptions {
+  policy: RoundingPolicy
+  decimals: number
+  step: number
+}
+
+function resolveRoundingOptions(
+  data: AppData,
+  input: Pick<CalculateQuoteInput, 'rounding_policy' | 'usd_decimals' | 'price_step'>,
+): RoundingOptions {
+  const policy = input.rounding_policy ?? data.settings.rounding_policy ?? 'ceil'
+  if (policy !== 'ceil' && policy !== 'half_up' && policy !== 'floor' && policy !== 'step') {
+    throw new Error(`Unsupported rounding_policy: ${String(policy)}`)
+  }
+  const decimals = Math.round(input.usd_decimals ?? data.settings.money_format?.usd_decimals ?? 4)
+  if (!Number.isFinite(decimals) || decimals < 0) {
+    throw new Error('usd_decimals must be a non-negative integer')
+  }
+  const step = input.price_step ?? data.settings.price_step ?? 0.05
+  if (policy === 'step') assertPositive(step, 'price_step')
+  return { policy, decimals, step }
+}
+
+interface SellCurrency {
+  code: string
+  rate_to_rmb: number
+  decimals: number
+}
+
+function resolveSellCurrency(
+  data: AppData,
+  code: string | undefined,
+  fxRate: number,
+  usdDecimals: number,
+): SellCurrency {
+  const normalized = (code ?? BASE_SELL_CURRENCY).trim().toUpperCase() || BASE_SELL_CURRENCY
+  if (normalized === BASE_SELL_CURRENCY) {
+    return { code: BASE_SELL_CURRENCY, rate_to_rmb: fxRate, decimals: usdDecimals }
+  }
+  const currency = (data.currencies ?? []).find((item) => item.code.trim().toUpperCase() === normalized)
+  if (!currency) throw new Error(`Currency not found: ${normalized}`)
+  assertPositive(Number(currency.rate_to_rmb), `${normalized}.rate_to_rmb`)
+  const decimals = Math.round(Number(currency.decimals))
+  if (!Number.isFinite(decimals) || decimals < 0) {
+    throw new Error(`${normalized}.decimals must be a non-negative integer`)
+  }
+  return { code: normalized, rate_to_rmb: Number(currency.rate_to_rmb), decimals }
+}
+
+function toFixedNumber(value: number, decimals: number): number {
+  return Number(value.toFixed(Math.min(decimals, 12)))
+}
+
+// step 按价格档位向上取整，其余规则在 usd_decimals 精度上取整。
+function roundPrice(value: number, options: RoundingOptions): number {
+  if (options.policy === 'step') {
+    const stepDecimals = (String(options.step).split('.')[1] ?? '').length
+    const steps = Math.ceil(value / options.step - ROUNDING_EPSILON)
+    return toFixedNumber(steps * options.step, Math.max(options.decimals, stepDecimals))
+  }
+  const factor = 10 ** options.decimals
+  const scaled = value * factor
+  const rounded =
+    options.policy === 'floor'
+      ? Math.floor(scaled + ROUNDING_EPSILON)
+      : options.policy === 'half_up'
+        ? Math.floor(scaled + 0.5 + ROUNDING_EPSILON)
+        : Math.ceil(scaled - ROUNDING_EPSILON)
+  return toFixedNumber(rounded / factor, options.decimals)
+}
+
+// 袋数 / 箱数取整；step 规则下数量仍向上取整。
+function roundCount(value: number, policy: RoundingPolicy): number {
+  if (policy === 'floor') return Math.floor(value + ROUNDING_EPSILON)
+  if (policy === 'half_up') return Math.floor(value + 0.5 + ROUNDING_EPSILON)
+  return Math.ceil(value - ROUNDING_EPSILON)
+}
+
+const PRICING_FORMULA_MODES: PricingFormulaMode[] = [
+  'divide',
+  'multiply',
+  'fixed_usd_per_bag',
+  'fixed_usd_per_ton',
+  'fixed_rmb_per_bag',
+  'fixed_rmb_per_ton',
+]
+
+function resolvePricingFormulaMode(data: AppData, value: PricingFormulaMode | undefined): PricingFormulaMode {
+  const mode = value ?? data.settings.pricing_formula_mode ?? 'divide'
+  if (!PRICING_FORMULA_MODES.includes(mode)) {
+    throw new Error(`Unsupported pricing_formula_mode: ${String(mode)}`)
+  }
+  return mode
+}
+
+// divide / multiply 使用 margin_pct，固定利润模式使用 fixed_profit_value。
+function resolvePricingValue(
+  data: AppData,
+  mode: PricingFormulaMode,
+  marginPct: number,
+  fixedProfitValue: number | undefined,
+): number {
+  if (mode === 'divide' || mode === 'multiply') {
+    assertFinite(marginPct, 'margin_pct')
+    if (marginPct < 0 || (mode === 'divide' && marginPct >= 1)) {
+      throw new Error(mode === 'divide' ? 'margin_pct must be in [0,1)' : 'margin_pct must be >= 0')
+    }
+    return marginPct
+  }
+  const value = fixedProfitValue ?? data.settings.fixed_profit_value ?? 0
+  assertFinite(value, 'fixed_profit_value')
+  if (value < 0) {
+    throw new Error('fixed_profit_value must be >= 0')
+  }
+  return value
+}
+
+function applyPricingFormula(
+  mode: PricingFormulaMode,
+  pricingValue: number,
+  costUsdPerBag: number,
+  tonsPerBag: number,
+  fxRate: number,
+): number {
+  switch (mode) {
+    case 'divide':
+      return safeDiv(costUsdPerBag, 1 - pricingValue, 'sell_usd_per_bag')
+    case 'multiply':
+      return costUsdPerBag * (1 + pricingValue)
+    case 'fixed_usd_per_bag':
+      return costUsdPerBag + pricingValue
+    case 'fixed_usd_per_ton':
+      return costUsdPerBag + pricingValue * tonsPerBag
+    case 'fixed_rmb_per_bag':
+      return costUsdPerBag + safeDiv(pricingValue, fxRate, 'fixed_profit_usd_per_bag')
+    case 'fixed_rmb_per_ton':
+      return costUsdPerBag + safeDiv(pricingValue * tonsPerBag, fxRate, 'fixed_profit_usd_per_bag')
+  }
+}
+
+function resolveIncoterm(value: Incoterm | undefined): Incoterm {
+  const incoterm = value ?? 'FOB'
+  if (incoterm !== 'EXW' && incoterm !== 'FOB' && incoterm !== 'CFR' && incoterm !== 'CIF') {
+    throw new Error(`Unsupported incoterm: ${String(value)}`)
+  }
+  return incoterm
+}
+
+function resolveDestinationPortId(incoterm: Incoterm, value: string | null | undefined): string | null {
+  if (incoterm !== 'CFR' && incoterm !== 'CIF') return null
+  const destinationPortId = String(value ?? '').trim()
+  if (!destinationPortId) {
+    throw new Error(`destination_port_id is required for ${incoterm}`)
+  }
+  return destinationPortId
+}
+
+function resolveInsurancePct(data: AppData, value: number | undefined): number {
+  const pct = value ?? data.settings.insurance_pct ?? DEFAULT_INSURANCE_PCT
+  assertFinite(pct, 'insurance_pct')
+  if (pct < 0 || pct * INSURANCE_COVERAGE >= 1) {
+    throw new Error('insurance_pct must be in [0, 1/1.1)')
+  }
+  return pct
+}
+
+// 匹配顺序：指定工厂 > 工厂所在距离区间 > 通用规则 > 同柜型任意规则。LCL 不使用按车次计价的规则。
+function matchLandFreightRule(
+  data: AppData,
+  mode: Mode,
+  factoryId: string,
+  containerType: ContainerType,
+): RuleMatch<LandFreightRule> | null {
+  const isBlank = (value: string | null | undefined) => value === null || value === undefined || value.trim() === ''
+  const zone = data.factories.find((item) => item.id === factoryId)?.land_zone?.trim() || null
+  const candidates = data.land_freight_rules.filter(
+    (item) =>
+      item.mode === mode &&
+      item.container_type === containerType &&
+      !(mode === 'LCL' && item.basis === 'per_trip'),
+  )
+  const direct = candidates.find((item) => item.factory_id === factoryId)
+  if (direct) return { rule: direct, level: 'direct' }
+  const zoned = zone ? candidates.find((item) => isBlank(item.factory_id) && item.zone?.trim() === zone) : undefined
+  if (zoned) return { rule: zoned, level: 'zone' }
+  const global = candidates.find((item) => isBlank(item.factory_id) && isBlank(item.zone))
+  if (global) return { rule: global, level: 'global' }
+  return candidates[0] ? { rule: candidates[0], level: 'any' } : null
 }
 
-function resolveLandFreightPerTon(
-  rules: LandFreightRule[],
+export function findLandFreightRule(
+  data: AppData,
+  mode: Mode,
+  factoryId: string,
+  containerType: ContainerType,
+): LandFreightRule | null {
+  return matchLandFreightRule(data, mode, factoryId, containerType)?.rule ?? null
+}
+
+// 上限为 0 视为未配置范围。
+function resolveLandFreightBounds(rule: LandFreightRule): LandFreightBounds | null {
+  const max = safeNonNegative(rule.max_rmb_per_ton, 0)
+  if (max <= 0) return null
+  return { min_rmb_per_ton: Math.min(safeNonNegative(rule.min_rmb_per_ton, 0), max), max_rmb_per_ton: max }
+}
+
+// 手工填写的每吨运费优先于规则，此时一律按吨计价，并按规则上下限校验。
+export function resolveLandFreightRate(
+  data: AppData,
   mode: Mode,
   factoryId: string,
   containerType: ContainerType,
   overrideValue: number | undefined,
-  warnings: string[],
-): number {
+  warnings: QuoteWarning[],
+  overridePolicy: LandOverridePolicy = 'warn',
+): LandFreightRate {
+  const rule = findLandFreightRule(data, mode, factoryId, containerType)
+  const bounds = rule ? resolveLandFreightBounds(rule) : null
   if (overrideValue !== undefined && Number.isFinite(overrideValue) && overrideValue >= 0) {
-    return overrideValue
-  }
-  const rule =
-    rules.find(
-      (item) =>
-        item.mode === mode && item.container_type === containerType && item.factory_id === factoryId,
-    ) ??
-    rules.find(
-      (item) =>
-        item.mode === mode &&
-        item.container_type === containerType &&
-        (item.factory_id === null || item.factory_id === ''),
-    ) ??
-    rules.find((item) => item.mode === mode && item.container_type === containerType)
-
+    if (bounds && (overrideValue < bounds.min_rmb_per_ton || overrideValue > bounds.max_rmb_per_ton)) {
+      if (overridePolicy === 'block') {
+        throw new Error(
+          `land_fee_override_rmb_per_ton must be within [${bounds.min_rmb_per_ton}, ${bounds.max_rmb_per_ton}] for ${containerType}`,
+        )
+      }
+      warnings.push(
+        createQuoteWarning('land_override_out_of_range', {
+          container_type: containerType,
+          value: overrideValue,
+          min_rmb_per_ton: bounds.min_rmb_per_ton,
+          max_rmb_per_ton: bounds.max_rmb_per_ton,
+        }),
+      )
+    }
+    return { basis: 'per_ton', rate_rmb: overrideValue, zone: null, bounds }
+  }
   if (!rule) {
-    warnings.push(`缺少 ${containerType} 的 ${mode} 国内段运费规则，已按默认值 0 RMB/吨计算。`)
-    return 0
+    warnings.push(
+      createQuoteWarning('land_freight_rule_missing', {
+        container_type: containerType,
+        mode,
+        fallback_rmb_per_ton: 0,
+      }),
+    )
+    return { basis: 'per_ton', rate_rmb: 0, zone: null, bounds: null }
   }
-  return safeNonNegative(rule.default_rmb_per_ton, 0)
+  const zone = rule.zone?.trim() || null
+  if (rule.basis === 'per_trip') {
+    return { basis: 'per_trip', rate_rmb: safeNonNegative(rule.rmb_per_trip, 0), zone, bounds }
+  }
+  return { basis: 'per_ton', rate_rmb: safeNonNegative(rule.default_rmb_per_ton, 0), zone, bounds }
+}
+
+// 超出总装载量的部分计入最后一柜，使超装显示为超过 100%。
+function resolveContainerUtilization(tons: number, entries: Array<{ count: number; max_tons: number }>): number[] {
+  const capacities = entries.flatMap((entry) => Array.from({ length: entry.count }, () => entry.max_tons))
+  let remaining = tons
+  return capacities.map((capacity, index) => {
+    const load = index === capacities.length - 1 ? Math.max(0, remaining) : Math.min(capacity, Math.max(0, remaining))
+    remaining -= load
+    return capacity > 0 ? load / capacity : 0
+  })
+}
+
+function normalizeContainerMix(mix: ContainerMixEntry[] | undefined): ContainerMixEntry[] | null {
+  if (!mix || mix.length === 0) return null
+  const merged = new Map<ContainerType, number>()
+  mix.forEach((entry) => {
+    const count = Number(entry.count)
+    if (!Number.isInteger(count) || count < 0) {
+      throw new Error(`container_mix count for ${entry.container_type} must be a non-negative integer`)
+    }
+    if (count > 0) merged.set(entry.container_type, (merged.get(entry.container_type) ?? 0) + count)
+  })
+  if (merged.size === 0) throw new Error('container_mix requires at least one container')
+  return Array.from(merged, ([container_type, count]) => ({ container_type, count }))
+}
+
+function resolveUnitsPerCarton(
+  overrideValue: number | null | undefined,
+  packagingOption: PackagingOption,
+): number | null {
+  const raw = overrideValue !== undefined ? overrideValue : packagingOption.units_per_carton
+  return raw === null || raw === 0 ? null : Math.max(1, Math.round(Number(raw)))
+}
+
+// 每袋体积优先取 unit_cbm，其次按 carton_cbm / 每箱袋数折算；均未维护时不做体积约束。
+export function resolveCbmPerBag(packagingOption: PackagingOption, unitsPerCarton: number | null): number | null {
+  const unitCbm = Number(packagingOption.unit_cbm ?? Number.NaN)
+  if (Number.isFinite(unitCbm) && unitCbm > 0) return unitCbm
+  const cartonCbm = Number(packagingOption.carton_cbm ?? Number.NaN)
+  if (Number.isFinite(cartonCbm) && cartonCbm > 0 && unitsPerCarton && unitsPerCarton > 0) {
+    return cartonCbm / unitsPerCarton
+  }
+  return null
+}
+
+function resolveUnitWeightKg(overrideValue: number | undefined, packagingOption: PackagingOption): number {
+  const unitWeightKg = safeNonNegative(
+    overrideValue ?? packagingOption.unit_weight_kg,
+    packagingOption.unit_weight_kg,
+  )
+  assertPositive(unitWeightKg, 'unit_weight_kg')
+  return unitWeightKg
+}
+
+function resolvePriceAdjustment(
+  adjustment: PriceAdjustment | null | undefined,
+  field: string,
+): { pct: number; usd_per_bag: number } {
+  if (!adjustment) return { pct: 0, usd_per_bag: 0 }
+  const value = Number(adjustment.value)
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`${field}.value must be >= 0`)
+  }
+  if (adjustment.basis === 'pct_of_sell') {
+    if (value >= 1) throw new Error(`${field} percentage must be < 1`)
+    return { pct: value, usd_per_bag: 0 }
+  }
+  if (adjustment.basis === 'usd_per_bag') return { pct: 0, usd_per_bag: value }
+  throw new Error(`Unsupported ${field} basis: ${String(adjustment.basis)}`)
 }
 
 function resolvePackagingOverrides(data: AppData, factoryId: string, packagingOptionId: string) {
@@ -240,20 +1092,26 @@ function resolvePackagingOverrides(data: AppData, factoryId: string, packagingOp
     (item) => item.factory_id === factoryId && item.packaging_option_id === packagingOptionId,
   )
   return {
+    id: override?.id ?? null,
     carton_price_rmb_override: override?.carton_price_rmb_override ?? null,
     bag_price_rmb_override: override?.bag_price_rmb_override ?? null,
   }
 }
 
 export function calculateQuote(input: CalculateQuoteInput): CalculateQuoteResult {
-  const warnings: string[] = []
+  const warnings: QuoteWarning[] = []
   const { data } = input
 
   assertPositive(input.fx_rate, 'fx_rate')
-  assertFinite(input.margin_pct, 'margin_pct')
-  if (input.margin_pct < 0 || input.margin_pct >= 1) {
-    throw new Error('margin_pct must be in [0,1)')
-  }
+  const pricingFormulaMode = resolvePricingFormulaMode(data, input.pricing_formula_mode)
+  const pricingValue = resolvePricingValue(data, pricingFormulaMode, input.margin_pct, input.fixed_profit_value)
+  const incoterm = resolveIncoterm(input.incoterm)
+  const destinationPortId = resolveDestinationPortId(incoterm, input.destination_port_id)
+  const insurancePct = incoterm === 'CIF' ? resolveInsurancePct(data, input.insurance_pct) : 0
+  const rounding = resolveRoundingOptions(data, input)
+  const sellCurrency = resolveSellCurrency(data, input.sell_currency, input.fx_rate, rounding.decimals)
+  const commission = resolvePriceAdjustment(input.commission, 'commission')
+  const discount = resolvePriceAdjustment(input.discount, 'discount')
 
   const product = findProduct(data, input.product_id)
   const packagingOption = findPackagingOption(data, input.packaging_option_id)
@@ -262,25 +1120,66 @@ export function calculateQuote(input: CalculateQuoteInput): CalculateQuoteResult
     throw new Error('packaging option does not belong to selected product')
   }
 
-  const unitWeightKg = safeNonNegative(
-    input.override_unit_weight_kg ?? packagingOption.unit_weight_kg,
-    packagingOption.unit_weight_kg,
-  )
-  assertPositive(unitWeightKg, 'unit_weight_kg')
+  const unitWeightKg = resolveUnitWeightKg(input.override_unit_weight_kg, packagingOption)
 
-  const unitsPerCartonRaw =
-    input.override_units_per_carton !== undefined
-      ? input.override_units_per_carton
-      : packagingOption.units_per_carton
-  const unitsPerCarton =
-    unitsPerCartonRaw === null || unitsPerCartonRaw === 0
-      ? null
-      : Math.max(1, Math.round(Number(unitsPerCartonRaw)))
+  const unitsPerCarton = resolveUnitsPerCarton(input.override_units_per_carton, packagingOption)
 
   const bagsPerTon = safeDiv(1000, unitWeightKg, 'bags_per_ton')
-  const maxTons = resolveContainerMaxTons(data, product.id, input.container_type, warnings)
+  const cbmPerBag = resolveCbmPerBag(packagingOption, unitsPerCarton)
+  const palletSpec = input.pallet_spec_id ? findPalletSpec(data, input.pallet_spec_id) : null
+  if (palletSpec?.packaging_option_id && palletSpec.packaging_option_id !== packagingOption.id) {
+    throw new Error('pallet spec does not belong to selected packaging option')
+  }
+  const palletLoad = palletSpec ? resolvePalletLoad(palletSpec, unitsPerCarton, unitWeightKg, cbmPerBag) : null
+  const shipment = input.shipment
+  const containerMix = shipment ? null : normalizeContainerMix(input.container_mix)
+  const capacityEntries = (containerMix ?? [{ container_type: input.container_type, count: 1 }]).map((entry) => ({
+    ...entry,
+    ...resolveContainerCapacity(
+      data,
+      product.id,
+      entry.container_type,
+      cbmPerBag === null ? null : cbmPerBag * bagsPerTon,
+      warnings,
+      palletLoad,
+    ),
+  }))
+  const mixCapacities = containerMix ? capacityEntries : null
+  // 混装时以组合中最大单柜吨数判断是否够整柜。
+  const maxTons = Math.max(...capacityEntries.map((entry) => entry.max_tons))
+  const containerLimit: ContainerLimit = capacityEntries.some((entry) => entry.limit === 'pallet')
+    ? 'pallet'
+    : capacityEntries.some((entry) => entry.limit === 'volume')
+      ? 'volume'
+      : 'weight'
+  if (!shipment) {
+    capacityEntries
+      .filter((entry) => entry.limit === 'pallet')
+      .forEach((entry) =>
+        warnings.push(
+          createQuoteWarning('container_pallet_limited', {
+            container_type: entry.container_type,
+            pallets: entry.pallets_per_container ?? 0,
+            pallet_tons: entry.max_tons.toFixed(2),
+            weight_tons: entry.weight_max_tons.toFixed(2),
+          }),
+        ),
+      )
+    capacityEntries
+      .filter((entry) => entry.limit === 'volume')
+      .forEach((entry) =>
+        warnings.push(
+          createQuoteWarning('container_volume_limited', {
+            container_type: entry.container_type,
+            max_cbm: entry.max_cbm ?? 0,
+            volume_tons: entry.max_tons.toFixed(2),
+            weight_tons: entry.weight_max_tons.toFixed(2),
+          }),
+        ),
+      )
+  }
 
-  let mode: Mode = input.mode
+  let mode: Mode = shipment?.mode ?? input.mode
   let inputTons: number | null = null
   if (input.qty_input_value !== undefined && Number.isFinite(input.qty_input_value) && input.qty_input_value > 0) {
     inputTons =
@@ -289,17 +1188,22 @@ export function calculateQuote(input: CalculateQuoteInput): CalculateQuoteResult
         : input.qty_input_value
   }
 
-  if (mode === 'FCL' && inputTons !== null && inputTons < maxTons) {
+  if (!shipment && !input.keep_fcl && mode === 'FCL' && inputTons !== null && inputTons < maxTons) {
     mode = 'LCL'
-    warnings.push(
-      `您输入的吨数小于该产品默认装柜吨数（${maxTons.toFixed(2)} 吨），系统已自动切换为 LCL 进行计算。`,
-    )
+    warnings.push(createQuoteWarning('auto_switched_to_lcl', { max_tons: maxTons.toFixed(2) }))
   }
 
+  const mixCapacityTons = mixCapacities?.reduce((acc, entry) => acc + entry.count * entry.max_tons, 0) ?? 0
+  const fclMix =
+    mode === 'FCL' && mixCapacities
+      ? mixCapacities.map((entry) => ({ ...entry, share: (entry.count * entry.max_tons) / mixCapacityTons }))
+      : null
+  const containerType = fclMix ? fclMix[0].container_type : input.container_type
+
   let tons = 0
   let bagsRaw = 0
   if (mode === 'FCL') {
-    tons = inputTons !== null && inputTons > 0 ? inputTons : maxTons
+    tons = inputTons !== null && inputTons > 0 ? inputTons : fclMix ? mixCapacityTons : maxTons
     bagsRaw = tons * bagsPerTon
   } else {
     if (!input.qty_input_type || !input.qty_input_value || input.qty_input_value <= 0) {
@@ -316,17 +1220,25 @@ export function calculateQuote(input: CalculateQuoteInput): CalculateQuoteResult
 
   assertPositive(tons, 'tons')
   assertPositive(bagsRaw, 'bags')
-  const bagsInt = Math.ceil(bagsRaw)
-  const containerCount = Math.max(
-    1,
-    Math.ceil(
-      Number.isFinite(input.container_count ?? Number.NaN)
-        ? (input.container_count as number)
-        : tons / maxTons,
-    ),
-  )
+  const bagsInt = roundCount(bagsRaw, rounding.policy)
+  if (bagsInt < 1) {
+    throw new Error('rounded bag count must be >= 1')
+  }
+  const containerCount = shipment
+    ? shipment.container_count
+    : fclMix
+      ? fclMix.reduce((acc, entry) => acc + entry.count, 0)
+      : Math.max(
+        1,
+        Math.ceil(
+          Number.isFinite(input.container_count ?? Number.NaN)
+            ? (input.container_count as number)
+            : tons / maxTons,
+        ),
+      )
 
-  const costRmbPerTon = findCostPerTon(data, product.id, factory.id)
+  const factoryCost = findFactoryCost(data, product.id, factory.id)
+  const costRmbPerTon = resolveCostRmbPerTon(factoryCost, bagsPerTon, unitsPerCarton)
   const packagingOverride = resolvePackagingOverrides(data, factory.id, packagingOption.id)
 
   const bagPriceSource: QuoteSummary['bag_price_source'] =
@@ -357,7 +1269,8 @@ export function calculateQuote(input: CalculateQuoteInput): CalculateQuoteResult
     0,
   )
 
-  const cartonsInt = unitsPerCarton && unitsPerCarton > 0 ? Math.ceil(bagsInt / unitsPerCarton) : 0
+  const cartonsRaw = unitsPerCarton && unitsPerCarton > 0 ? bagsInt / unitsPerCarton : 0
+  const cartonsInt = cartonsRaw > 0 ? Math.max(1, roundCount(cartonsRaw, rounding.policy)) : 0
 
   const rawRmbPerBag = safeDiv(costRmbPerTon * (1 + product.invoice_tax_point) * tons, bagsInt, 'raw_rmb_per_bag')
   const bagMatRmbPerBag = effectiveBagPrice
@@ -365,85 +1278,862 @@ export function calculateQuote(input: CalculateQuoteInput): CalculateQuoteResult
     unitsPerCarton && unitsPerCarton > 0 && cartonsInt > 0
       ? safeDiv(cartonsInt * effectiveCartonPrice, bagsInt, 'carton_rmb_per_bag')
       : 0
+  const palletsInt = palletLoad ? Math.ceil(cartonsInt / palletLoad.cartons_per_pallet) : 0
+  const palletRmbPerBag = palletSpec
+    ? safeDiv(palletsInt * safeNonNegative(palletSpec.pallet_cost_rmb), bagsInt, 'pallet_rmb_per_bag')
+    : 0
+  const totalCbm = cbmPerBag === null ? null : cbmPerBag * bagsInt + palletsInt * safeNonNegative(palletSpec?.pallet_cbm)
 
-  const landFreightPerTon = resolveLandFreightPerTon(
-    data.land_freight_rules,
-    mode,
-    factory.id,
-    input.container_type,
-    input.land_fee_override_rmb_per_ton,
-    warnings,
-  )
-  const landFreightTotal = landFreightPerTon * tons
+  // EXW 由买方在工厂提货，不含国内运费与港杂。
+  const includeDomesticLegs = incoterm !== 'EXW'
+  const loadShare = shipment ? shipment.load_share : 1
+  if (!Number.isFinite(loadShare) || loadShare <= 0 || loadShare > 1) {
+    throw new Error('shipment.load_share must be in (0,1]')
+  }
+  const landEntries = !includeDomesticLegs
+    ? []
+    : fclMix ?? [{ container_type: input.container_type, count: containerCount, share: 1 }]
+  // 按车次计价时整柜每柜一车，运费随柜数而非吨数变化。
+  const landFreightLegs = landEntries.map((entry): LandFreightLeg => {
+    const rate = resolveLandFreightRate(
+      data,
+      mode,
+      factory.id,
+      entry.container_type,
+      input.land_fee_override_rmb_per_ton,
+      warnings,
+      input.land_override_policy,
+    )
+    const quantity = rate.basis === 'per_trip' ? entry.count * loadShare : tons * entry.share
+    return { ...rate, container_type: entry.container_type, quantity, total_rmb: rate.rate_rmb * quantity }
+  })
+  const landFreightTotal = landFreightLegs.reduce((acc, leg) => acc + leg.total_rmb, 0)
+  const landOverrideValue = input.land_fee_override_rmb_per_ton
+  const landOverride: LandFreightOverride | null =
+    landFreightLegs.length > 0 &&
+    landOverrideValue !== undefined &&
+    Number.isFinite(landOverrideValue) &&
+    landOverrideValue >= 0
+      ? {
+          rmb_per_ton: landOverrideValue,
+          reason: input.land_fee_override_reason?.trim() || null,
+          within_bounds: landFreightLegs.every(
+            (leg) =>
+              !leg.bounds ||
+              (landOverrideValue >= leg.bounds.min_rmb_per_ton && landOverrideValue <= leg.bounds.max_rmb_per_ton),
+          ),
+        }
+      : null
+  const landFreightPerTon = landFreightTotal / tons
+  if (!shipment && mode !== input.mode && includeDomesticLegs && landFreightPerTon <= 0) {
+    warnings.push(createQuoteWarning('auto_lcl_zero_land_freight'))
+  }
   const landRmbPerBag = safeDiv(landFreightTotal, bagsInt, 'land_rmb_per_bag')
 
-  const fclPortTotalRmb =
-    resolveFclPortSingleRmb(data, product.pol_port_id, input.container_type, warnings) * containerCount
-  const lclPortTotalRmb =
-    mode === 'LCL'
-      ? resolveLclPortTotalRmb(data, product.pol_port_id, input.container_type, tons, warnings)
+  const fclPortTotalRmb = shipment
+    ? shipment.fcl_port_total_rmb
+    : !includeDomesticLegs
+      ? 0
+      : fclMix
+        ? fclMix.reduce(
+            (acc, entry) =>
+              acc + resolveFclPortSingleRmb(data, product.pol_port_id, entry.container_type, warnings) * entry.count,
+            0,
+          )
+        : resolveFclPortSingleRmb(data, product.pol_port_id, input.container_type, warnings) * containerCount
+  const lclPortCharge = shipment
+    ? shipment.lcl_port_charge ?? null
+    : includeDomesticLegs && mode === 'LCL'
+      ? resolveLclPortCharge(data, product.pol_port_id, input.container_type, tons, totalCbm, warnings)
       : null
-  const portTotalRmb = mode === 'FCL' ? fclPortTotalRmb : lclPortTotalRmb ?? 0
+  const lclPortTotalRmb = shipment ? shipment.lcl_port_total_rmb : lclPortCharge?.total_rmb ?? null
+  const portTotalRmb = (mode === 'FCL' ? fclPortTotalRmb : lclPortTotalRmb ?? 0) * loadShare
   const portRmbPerBag = safeDiv(portTotalRmb, bagsInt, 'port_rmb_per_bag')
 
-  if (mode === 'LCL' && lclPortTotalRmb !== null && lclPortTotalRmb > fclPortTotalRmb) {
+  if (!shipment && mode === 'LCL' && lclPortTotalRmb !== null && lclPortTotalRmb > fclPortTotalRmb) {
     warnings.push(
-      `当前 LCL 港杂约为 ${lclPortTotalRmb.toFixed(2)} RMB，已高于同吨数的 FCL 港杂 ${fclPortTotalRmb.toFixed(2)} RMB，建议选择 FCL。`,
+      createQuoteWarning('lcl_port_exceeds_fcl', {
+        lcl_port_rmb: lclPortTotalRmb.toFixed(2),
+        fcl_port_rmb: fclPortTotalRmb.toFixed(2),
+      }),
     )
   }
 
+  const setupCharges = (data.setup_charges ?? []).filter((item) => item.packaging_option_id === packagingOption.id)
+  const setupBagsInt = shipment?.setup_bags_int ?? bagsInt
+  setupCharges.forEach((charge) => {
+    const moq = Number(charge.moq_bags ?? 0)
+    if (Number.isFinite(moq) && moq > setupBagsInt) {
+      warnings.push(createQuoteWarning('setup_moq_not_met', { name: charge.name, moq, bags: setupBagsInt }))
+    }
+  })
+  const setupChargeRmb = setupCharges
+    .filter((charge) => !(input.repeat_order && charge.waived_on_repeat))
+    .reduce((acc, charge) => acc + safeNonNegative(charge.amount_rmb), 0)
+  const setupRmbPerBag = safeDiv(setupChargeRmb, setupBagsInt, 'setup_rmb_per_bag')
+  const setupTotalRmb = setupRmbPerBag * bagsInt
+
+  const extraChargeQuantity: Record<ExtraChargeBasis, number> = {
+    shipment: loadShare,
+    // LCL 没有整柜，按柜计的费用按一票收取。
+    container: (mode === 'FCL' ? containerCount : 1) * loadShare,
+    ton: tons,
+    bag: bagsInt,
+  }
+  const extraCharges = resolveSelectedExtraCharges(
+    data,
+    input.extra_charge_ids,
+    resolveExtraChargeScope(data, product.pol_port_id, input.customer_id, input.destination_port_id),
+  ).map((charge): ExtraChargeLine => {
+    const quantity = extraChargeQuantity[charge.basis]
+    if (quantity === undefined) {
+      throw new Error(`Unsupported extra charge basis: ${String(charge.basis)}`)
+    }
+    const amountRmb = safeNonNegative(charge.amount_rmb)
+    const totalRmb = amountRmb * quantity
+    return {
+      id: charge.id,
+      name: charge.name,
+      basis: charge.basis,
+      amount_rmb: amountRmb,
+      quantity,
+      total_rmb: totalRmb,
+      rmb_per_bag: safeDiv(totalRmb, bagsInt, 'extra_rmb_per_bag'),
+    }
+  })
+  const extraTotalRmb = extraCharges.reduce((acc, item) => acc + item.total_rmb, 0)
+  const extraRmbPerBag = safeDiv(extraTotalRmb, bagsInt, 'extra_rmb_per_bag')
+
   const domesticTotalRmbPerBag =
-    rawRmbPerBag + bagMatRmbPerBag + cartonRmbPerBag + landRmbPerBag + portRmbPerBag
-  const rebateRmbPerBag = rawRmbPerBag * product.refund_rate
+    rawRmbPerBag +
+    bagMatRmbPerBag +
+    cartonRmbPerBag +
+    palletRmbPerBag +
+    setupRmbPerBag +
+    extraRmbPerBag +
+    landRmbPerBag +
+    portRmbPerBag
+  // 出口退税 = 不含税采购价 × 退税率；含税采购价为工厂成本加开票点。
+  const rebateMode: RebateMode = factory.rebate_mode ?? 'vat_invoice'
+  const purchaseVatRate = Number(product.purchase_vat_rate ?? 0)
+  if (rebateMode === 'vat_invoice' && (!Number.isFinite(purchaseVatRate) || purchaseVatRate < 0)) {
+    throw new Error('purchase_vat_rate must be >= 0')
+  }
+  const purchaseExVatRmbPerBag =
+    rebateMode === 'vat_invoice' ? rawRmbPerBag / (1 + purchaseVatRate) : rawRmbPerBag
+  const purchaseVatRmbPerBag = rawRmbPerBag - purchaseExVatRmbPerBag
+  const rebateRmbPerBag = purchaseExVatRmbPerBag * product.refund_rate
   const netRmbPerBag = domesticTotalRmbPerBag - rebateRmbPerBag
 
   const costUsdPerBag = safeDiv(netRmbPerBag, input.fx_rate, 'cost_usd_per_bag')
-  const sellUsdPerBag = safeDiv(costUsdPerBag, 1 - input.margin_pct, 'sell_usd_per_bag')
-  const sellRmbPerBag = sellUsdPerBag * input.fx_rate
-  const gpRmbPerBag = sellRmbPerBag - netRmbPerBag
+  const fobUsdPerBag = applyPricingFormula(
+    pricingFormulaMode,
+    pricingValue,
+    costUsdPerBag,
+    tons / bagsInt,
+    input.fx_rate,
+  )
+  // 海运费与保险费按成本转嫁，不参与利润率加价。
+  const oceanFreightUsdTotal = shipment
+    ? shipment.ocean_freight_usd_total
+    : !destinationPortId
+      ? 0
+      : fclMix
+        ? fclMix.reduce(
+            (acc, entry) =>
+              acc +
+              resolveOceanFreightUsdTotal(
+                data,
+                product.pol_port_id,
+                destinationPortId,
+                mode,
+                entry.container_type,
+                entry.count,
+                tons * entry.share,
+                warnings,
+              ),
+            0,
+          )
+        : resolveOceanFreightUsdTotal(
+            data,
+            product.pol_port_id,
+            destinationPortId,
+            mode,
+            input.container_type,
+            containerCount,
+            tons,
+            warnings,
+          )
+  const oceanFreightUsdPerBag = safeDiv(oceanFreightUsdTotal * loadShare, bagsInt, 'ocean_freight_usd_per_bag')
+  // 保险费与按比例计的佣金都以成交价为基数，因此由 FOB + 海运费 + 固定佣金反推标价。
+  const listUsdPerBag = safeDiv(
+    fobUsdPerBag + oceanFreightUsdPerBag + commission.usd_per_bag,
+    1 - INSURANCE_COVERAGE * insurancePct - commission.pct,
+    'list_usd_per_bag',
+  )
+  const sellUsdPerBagRaw = listUsdPerBag * (1 - discount.pct) - discount.usd_per_bag
+  if (sellUsdPerBagRaw <= 0) {
+    throw new Error('discounted sell price per bag must be > 0')
+  }
+  // 非 USD 报价在销售币种上取整，USD 单价由取整后的外币价反算。
+  const isUsdSale = sellCurrency.code === BASE_SELL_CURRENCY
+  const sellPricePerBagRaw = isUsdSale
+    ? sellUsdPerBagRaw
+    : (sellUsdPerBagRaw * input.fx_rate) / sellCurrency.rate_to_rmb
+  const sellPricePerBag = roundPrice(sellPricePerBagRaw, { ...rounding, decimals: sellCurrency.decimals })
+  if (sellPricePerBag <= 0) {
+    throw new Error('rounded sell price per bag must be > 0')
+  }
+  const sellUsdPerBag = isUsdSale
+    ? sellPricePerBag
+    : (sellPricePerBag * sellCurrency.rate_to_rmb) / input.fx_rate
+  // 取整差额计入 FOB 部分，毛利按实际成交价计算。
+  const insuranceUsdPerBag = incoterm === 'CIF' ? sellUsdPerBag * INSURANCE_COVERAGE * insurancePct : 0
+  const commissionUsdPerBag = sellUsdPerBag * commission.pct + commission.usd_per_bag
+  const effectiveFobUsdPerBag = sellUsdPerBag - oceanFreightUsdPerBag - insuranceUsdPerBag - commissionUsdPerBag
+  const gpRmbPerBag = effectiveFobUsdPerBag * input.fx_rate - netRmbPerBag
   const gpRmbTotal = gpRmbPerBag * bagsInt
+  const amountUsd = toFixedNumber(sellUsdPerBag * bagsInt, rounding.decimals)
+  const amount = toFixedNumber(sellPricePerBag * bagsInt, sellCurrency.decimals)
+
+  let trace: QuoteTraceStep[] | undefined
+  if (input.trace) {
+    // 重新匹配规则只为记录命中的记录与层级，警告已在计算时收集。
+    const ignored: QuoteWarning[] = []
+    const fclEntries = fclMix ?? [{ container_type: input.container_type, count: containerCount, share: 1 }]
+    const priceRecordIds = (source: QuoteSummary['bag_price_source']) =>
+      source === 'override' && packagingOverride.id ? [packagingOverride.id] : source === 'default' ? [packagingOption.id] : []
+    const portSteps: QuoteTraceStep[] = shipment
+      ? [
+          {
+            key: 'port_charges',
+            formula: 'port = shipment_port_total × load_share',
+            inputs: { source: 'shipment', shipment_port_total: mode === 'FCL' ? fclPortTotalRmb : lclPortTotalRmb ?? 0, load_share: loadShare },
+            record_ids: [],
+            result: portTotalRmb,
+          },
+        ]
+      : !includeDomesticLegs
+        ? []
+        : mode === 'FCL'
+          ? fclEntries.map((entry) => {
+              const match = matchFclPortRule(data, product.pol_port_id, entry.container_type)
+              const single = resolveFclPortSingleRmb(data, product.pol_port_id, entry.container_type, ignored)
+              return {
+                key: 'port_charges',
+                formula: 'port = base_rmb × containers',
+                inputs: { source: match?.level ?? 'fallback', container_type: entry.container_type, base_rmb: single, containers: entry.count },
+                record_ids: match ? [match.rule.id] : [],
+                result: single * entry.count,
+              }
+            })
+          : [
+              {
+                key: 'port_charges',
+                formula: LCL_PORT_TRACE_FORMULA[lclPortCharge?.basis ?? 'weight'],
+                inputs: {
+                  source: matchLclPortRule(data, product.pol_port_id, input.container_type)?.level ?? 'missing',
+                  basis: lclPortCharge?.basis ?? 'weight',
+                  tons,
+                  cbm: totalCbm,
+                  chargeable_qty: lclPortCharge?.chargeable_qty ?? tons,
+                },
+                record_ids: [matchLclPortRule(data, product.pol_port_id, input.container_type)?.rule.id].filter(
+                  (id): id is string => Boolean(id),
+                ),
+                result: lclPortTotalRmb ?? 0,
+              },
+            ]
+    const oceanSteps: QuoteTraceStep[] = shipment
+      ? [
+          {
+            key: 'ocean_freight',
+            formula: 'ocean = shipment_ocean_total × load_share',
+            inputs: { source: 'shipment', shipment_ocean_total: oceanFreightUsdTotal, load_share: loadShare },
+            record_ids: [],
+            result: oceanFreightUsdTotal * loadShare,
+          },
+        ]
+      : !destinationPortId
+        ? []
+        : (mode === 'FCL' ? fclEntries : [{ container_type: input.container_type, count: containerCount, share: 1 }]).map(
+            (entry) => {
+              const match = matchOceanFreightRule(data, product.pol_port_id, destinationPortId, mode, entry.container_type)
+              return {
+                key: 'ocean_freight',
+                formula:
+                  mode === 'FCL'
+                    ? 'ocean = base_usd × containers + extra_usd_per_ton × tons'
+                    : 'ocean = base_usd + extra_usd_per_ton × tons',
+                inputs: {
+                  source: match?.level ?? 'missing',
+                  destination_port_id: destinationPortId,
+                  container_type: entry.container_type,
+                  containers: entry.count,
+                  tons: tons * entry.share,
+                },
+                record_ids: match ? [match.rule.id] : [],
+                result: resolveOceanFreightUsdTotal(
+                  data,
+                  product.pol_port_id,
+                  destinationPortId,
+                  mode,
+                  entry.container_type,
+                  entry.count,
+                  tons * entry.share,
+                  ignored,
+                ),
+              }
+            },
+          )
+    trace = [
+      {
+        key: 'quantity',
+        formula: mode === 'LCL' && input.qty_input_type === 'bags' ? 'bags = round(qty_input_value)' : 'bags = round(tons × 1000 / unit_weight_kg)',
+        inputs: { mode, tons, unit_weight_kg: unitWeightKg, rounding_policy: rounding.policy },
+        record_ids: [product.id, packagingOption.id],
+        result: bagsInt,
+      },
+      {
+        key: 'containers',
+        formula: mode === 'FCL' ? 'containers = ceil(tons / max_tons)' : 'containers = 1',
+        inputs: {
+          source: shipment ? 'shipment' : containerMix ? 'container_mix' : input.container_count ? 'input' : 'auto',
+          tons,
+          max_tons: fclMix ? mixCapacityTons / containerCount : maxTons,
+          limit: containerLimit,
+        },
+        record_ids: data.container_load_rules
+          .filter((item) => item.product_id === product.id && capacityEntries.some((entry) => entry.container_type === item.container_type))
+          .map((item) => item.id),
+        result: containerCount,
+      },
+      {
+        key: 'raw_material',
+        formula: 'raw = cost_rmb_per_ton × (1 + invoice_tax_point) × tons / bags',
+        inputs: {
+          cost_unit: factoryCost.cost_unit ?? 'ton',
+          cost_value: Number(factoryCost.cost_rmb_per_ton),
+          cost_rmb_per_ton: costRmbPerTon,
+          invoice_tax_point: product.invoice_tax_point,
+          tons,
+          bags: bagsInt,
+        },
+        record_ids: [factoryCost.id],
+        result: rawRmbPerBag,
+      },
+      {
+        key: 'bag_material',
+        formula: 'bag_mat = bag_price_rmb',
+        inputs: { source: bagPriceSource, bag_price_rmb: effectiveBagPrice },
+        record_ids: priceRecordIds(bagPriceSource),
+        result: bagMatRmbPerBag,
+      },
+      {
+        key: 'carton',
+        formula: 'carton = cartons × carton_price_rmb / bags',
+        inputs: { source: cartonPriceSource, cartons: cartonsInt, carton_price_rmb: effectiveCartonPrice, bags: bagsInt },
+        record_ids: priceRecordIds(cartonPriceSource),
+        result: cartonRmbPerBag,
+      },
+      ...(palletSpec
+        ? [
+            {
+              key: 'pallet' as const,
+              formula: 'pallet = pallets × pallet_cost_rmb / bags',
+              inputs: { pallets: palletsInt, pallet_cost_rmb: safeNonNegative(palletSpec.pallet_cost_rmb), bags: bagsInt },
+              record_ids: [palletSpec.id],
+              result: palletRmbPerBag,
+            },
+          ]
+        : []),
+      ...(setupCharges.length > 0
+        ? [
+            {
+              key: 'setup' as const,
+              formula: 'setup = sum(amount_rmb) / bags',
+              inputs: { repeat_order: Boolean(input.repeat_order), total_rmb: setupChargeRmb, bags: setupBagsInt },
+              record_ids: setupCharges
+                .filter((charge) => !(input.repeat_order && charge.waived_on_repeat))
+                .map((charge) => charge.id),
+              result: setupRmbPerBag,
+            },
+          ]
+        : []),
+      ...extraCharges.map(
+        (charge): QuoteTraceStep => ({
+          key: 'extra_charge',
+          formula: 'extra = amount_rmb × quantity / bags',
+          inputs: { name: charge.name, basis: charge.basis, amount_rmb: charge.amount_rmb, quantity: charge.quantity, bags: bagsInt },
+          record_ids: [charge.id],
+          result: charge.rmb_per_bag,
+        }),
+      ),
+      ...landFreightLegs.map((leg): QuoteTraceStep => {
+        const match = matchLandFreightRule(data, mode, factory.id, leg.container_type)
+        return {
+          key: 'land_freight',
+          formula: leg.basis === 'per_trip' ? 'land = rmb_per_trip × trips' : 'land = rmb_per_ton × tons',
+          inputs: {
+            source: landOverride ? 'override' : match?.level ?? 'missing',
+            container_type: leg.container_type,
+            basis: leg.basis,
+            zone: leg.zone,
+            rate_rmb: leg.rate_rmb,
+            quantity: leg.quantity,
+          },
+          record_ids: match ? [match.rule.id] : [],
+          result: leg.total_rmb,
+        }
+      }),
+      ...portSteps,
+      {
+        key: 'domestic_total',
+        formula: 'domestic = raw + bag_mat + carton + pallet + setup + extra + land / bags + port / bags',
+        inputs: {
+          raw: rawRmbPerBag,
+          bag_mat: bagMatRmbPerBag,
+          carton: cartonRmbPerBag,
+          pallet: palletRmbPerBag,
+          setup: setupRmbPerBag,
+          extra: extraRmbPerBag,
+          land: landFreightTotal,
+          port: portTotalRmb,
+          bags: bagsInt,
+        },
+        record_ids: [],
+        result: domesticTotalRmbPerBag,
+      },
+      {
+        key: 'rebate',
+        formula: rebateMode === 'vat_invoice' ? 'rebate = raw / (1 + purchase_vat_rate) × refund_rate' : 'rebate = raw × refund_rate',
+        inputs: { rebate_mode: rebateMode, raw: rawRmbPerBag, purchase_vat_rate: purchaseVatRate, refund_rate: product.refund_rate },
+        record_ids: [product.id, factory.id],
+        result: rebateRmbPerBag,
+      },
+      {
+        key: 'net_cost',
+        formula: 'cost_usd = (domestic - rebate) / fx_rate',
+        inputs: { domestic: domesticTotalRmbPerBag, rebate: rebateRmbPerBag, fx_rate: input.fx_rate },
+        record_ids: [],
+        result: costUsdPerBag,
+      },
+      {
+        key: 'pricing',
+        formula: PRICING_TRACE_FORMULA[pricingFormulaMode],
+        inputs: {
+          pricing_formula_mode: pricingFormulaMode,
+          pricing_value: pricingValue,
+          cost_usd: costUsdPerBag,
+          tons_per_bag: tons / bagsInt,
+          fx_rate: input.fx_rate,
+        },
+        record_ids: [],
+        result: fobUsdPerBag,
+      },
+      ...oceanSteps,
+      {
+        key: 'list_price',
+        formula: 'list = (fob + ocean / bags + commission_usd) / (1 - 1.1 × insurance_pct - commission_pct)',
+        inputs: {
+          fob: fobUsdPerBag,
+          ocean: oceanFreightUsdTotal * loadShare,
+          bags: bagsInt,
+          commission_usd: commission.usd_per_bag,
+          insurance_pct: insurancePct,
+          commission_pct: commission.pct,
+        },
+        record_ids: [],
+        result: listUsdPerBag,
+      },
+      {
+        key: 'sell_price',
+        formula: 'sell = round(list × (1 - discount_pct) - discount_usd)',
+        inputs: {
+          list: listUsdPerBag,
+          discount_pct: discount.pct,
+          discount_usd: discount.usd_per_bag,
+          sell_currency: sellCurrency.code,
+          rate_to_rmb: sellCurrency.rate_to_rmb,
+          rounding_policy: rounding.policy,
+          decimals: sellCurrency.decimals,
+        },
+        record_ids: [],
+        result: sellPricePerBag,
+      },
+      {
+        key: 'gross_profit',
+        formula: 'gp = (sell_usd - ocean - insurance - commission) × fx_rate - net_rmb',
+        inputs: {
+          sell_usd: sellUsdPerBag,
+          ocean: oceanFreightUsdPerBag,
+          insurance: insuranceUsdPerBag,
+          commission: commissionUsdPerBag,
+          fx_rate: input.fx_rate,
+          net_rmb: netRmbPerBag,
+        },
+        record_ids: [],
+        result: gpRmbPerBag,
+      },
+    ]
+  }
 
   return {
     summary: {
       mode,
-      container_type: input.container_type,
+      container_type: containerType,
       container_count: containerCount,
+      container_mix:
+        mode !== 'FCL'
+          ? []
+          : fclMix
+            ? fclMix.map((entry) => ({ container_type: entry.container_type, count: entry.count }))
+            : [{ container_type: input.container_type, count: containerCount }],
+      container_max_tons: fclMix ? mixCapacityTons / containerCount : maxTons,
+      container_utilization:
+        mode !== 'FCL' || shipment
+          ? []
+          : resolveContainerUtilization(tons, fclMix ?? [{ count: containerCount, max_tons: maxTons }]),
+      container_limit: containerLimit,
+      cbm_per_bag: cbmPerBag,
+      total_cbm: totalCbm,
+      pallet_spec_id: palletSpec?.id ?? null,
+      pallets_per_container:
+        capacityEntries.find((entry) => entry.container_type === containerType)?.pallets_per_container ?? null,
+      pallets_int: palletsInt,
       tons,
       bags: bagsInt,
+      bags_raw: bagsRaw,
       bags_int: bagsInt,
+      cartons_raw: cartonsRaw,
       cartons_int: cartonsInt,
+      incoterm,
+      destination_port_id: destinationPortId,
       bag_price_source: bagPriceSource,
       carton_price_source: cartonPriceSource,
       sell_usd_per_bag: sellUsdPerBag,
+      sell_usd_per_bag_raw: sellUsdPerBagRaw,
+      amount_usd: amountUsd,
+      sell_currency: sellCurrency.code,
+      sell_currency_rate_to_rmb: sellCurrency.rate_to_rmb,
+      sell_currency_decimals: sellCurrency.decimals,
+      sell_price_per_bag: sellPricePerBag,
+      sell_price_per_bag_raw: sellPricePerBagRaw,
+      amount,
+      rounding_policy: rounding.policy,
+      usd_decimals: rounding.decimals,
+      price_step: rounding.policy === 'step' ? rounding.step : null,
+      fob_usd_per_bag: effectiveFobUsdPerBag,
       net_rmb_per_bag: netRmbPerBag,
       cost_usd_per_bag: costUsdPerBag,
       gp_rmb_per_bag: gpRmbPerBag,
       gp_rmb_total: gpRmbTotal,
       fcl_port_total_rmb: fclPortTotalRmb,
       lcl_port_total_rmb: lclPortTotalRmb,
+      lcl_port_charge: lclPortCharge,
+      ocean_freight_usd_total: oceanFreightUsdTotal,
+      insurance_pct: insurancePct,
+      commission: input.commission ?? null,
+      discount: input.discount ?? null,
+      pricing_formula_mode: pricingFormulaMode,
+      pricing_value: pricingValue,
+      load_share: loadShare,
     },
     breakdown: {
       raw_rmb_per_bag: rawRmbPerBag,
       bag_mat_rmb_per_bag: bagMatRmbPerBag,
       carton_rmb_per_bag: cartonRmbPerBag,
+      pallet_rmb_per_bag: palletRmbPerBag,
+      setup_rmb_per_bag: setupRmbPerBag,
+      setup_total_rmb: setupTotalRmb,
+      extra_charges: extraCharges,
+      extra_rmb_per_bag: extraRmbPerBag,
+      extra_total_rmb: extraTotalRmb,
       land_rmb_per_bag: landRmbPerBag,
       land_rmb_per_ton_used: landFreightPerTon,
       land_total_rmb: landFreightTotal,
+      land_freight_legs: landFreightLegs,
+      land_override: landOverride,
       port_rmb_per_bag: portRmbPerBag,
       domestic_total_rmb_per_bag: domesticTotalRmbPerBag,
+      rebate_mode: rebateMode,
+      purchase_ex_vat_rmb_per_bag: purchaseExVatRmbPerBag,
+      purchase_vat_rmb_per_bag: purchaseVatRmbPerBag,
       rebate_rmb_per_bag: rebateRmbPerBag,
       net_rmb_per_bag: netRmbPerBag,
+      ocean_freight_usd_per_bag: oceanFreightUsdPerBag,
+      insurance_usd_per_bag: insuranceUsdPerBag,
+      commission_usd_per_bag: commissionUsdPerBag,
+      list_usd_per_bag: listUsdPerBag,
+      discount_usd_per_bag: listUsdPerBag - sellUsdPerBagRaw,
+      factory_cost_unit: factoryCost.cost_unit ?? 'ton',
+      factory_cost_value: Number(factoryCost.cost_rmb_per_ton),
+      factory_cost_rmb_per_ton: costRmbPerTon,
     },
     warnings,
+    ...(trace ? { trace } : {}),
   }
 }
 
-export function formatCurrency(
-  amount: number,
-  currency: 'CNY' | 'USD' = 'CNY',
-  decimals = 4,
-): string {
-  const symbol = currency === 'USD' ? '$' : '¥'
-  const safe = Number.isFinite(amount) ? amount : 0
-  return `${symbol}${safe.toFixed(decimals)}`
+export type QuoteDocumentLineInput = Omit<
+  CalculateQuoteInput,
+  | 'data'
+  | 'mode'
+  | 'container_type'
+  | 'fx_rate'
+  | 'margin_pct'
+  | 'pricing_formula_mode'
+  | 'fixed_profit_value'
+  | 'rounding_policy'
+  | 'price_step'
+  | 'usd_decimals'
+  | 'container_count'
+  | 'container_mix'
+  | 'incoterm'
+  | 'destination_port_id'
+  | 'insurance_pct'
+  | 'commission'
+  | 'discount'
+  | 'customer_id'
+  | 'extra_charge_ids'
+  | 'land_override_policy'
+  | 'shipment'
+  | 'trace'
+> & {
+  line_id: string
+  qty_input_type: QtyInputType
+  qty_input_value: number
+  margin_pct?: number
+}
+
+export interface CalculateQuoteDocumentInput {
+  data: AppData
+  lines: QuoteDocumentLineInput[]
+  mode: Mode
+  container_type: ContainerType
+  fx_rate: number
+  margin_pct: number
+  pricing_formula_mode?: PricingFormulaMode
+  fixed_profit_value?: number
+  rounding_policy?: RoundingPolicy
+  price_step?: number
+  usd_decimals?: number
+  container_count?: number
+  incoterm?: Incoterm
+  destination_port_id?: string | null
+  insurance_pct?: number
+  sell_currency?: string
+  commission?: PriceAdjustment | null
+  discount?: PriceAdjustment | null
+  customer_id?: string | null
+  extra_charge_ids?: string[] | null
+  land_override_policy?: LandOverridePolicy
+  trace?: boolean
+}
+
+export interface QuoteDocumentLineResult {
+  line_id: string
+  result: CalculateQuoteResult
+  amount_usd: number
+  amount: number
+}
+
+export interface QuoteDocumentTotals {
+  mode: Mode
+  incoterm: Incoterm
+  pricing_formula_mode: PricingFormulaMode
+  container_type: ContainerType
+  container_count: number
+  container_fill: number
+  tons: number
+  bags_int: number
+  cartons_int: number
+  amount_usd: number
+  sell_currency: string
+  amount: number
+  net_rmb_total: number
+  gp_rmb_total: number
+  ocean_freight_usd_total: number
+}
+
+export interface CalculateQuoteDocumentResult {
+  lines: QuoteDocumentLineResult[]
+  totals: QuoteDocumentTotals
+  warnings: QuoteWarning[]
+}
+
+export function calculateQuoteDocument(input: CalculateQuoteDocumentInput): CalculateQuoteDocumentResult {
+  const warnings: QuoteWarning[] = []
+  const { data } = input
+  if (input.lines.length === 0) {
+    throw new Error('quote document requires at least one line')
+  }
+  const incoterm = resolveIncoterm(input.incoterm)
+  const destinationPortId = resolveDestinationPortId(incoterm, input.destination_port_id)
+  const includeDomesticLegs = incoterm !== 'EXW'
+  const pricingFormulaMode = resolvePricingFormulaMode(data, input.pricing_formula_mode)
+  const rounding = resolveRoundingOptions(data, input)
+
+  const planned = input.lines.map((line) => {
+    const product = findProduct(data, line.product_id)
+    const packagingOption = findPackagingOption(data, line.packaging_option_id)
+    const unitWeightKg = resolveUnitWeightKg(line.override_unit_weight_kg, packagingOption)
+    assertPositive(line.qty_input_value, `${line.line_id}.qty_input_value`)
+    const tons =
+      line.qty_input_type === 'bags' ? (line.qty_input_value * unitWeightKg) / 1000 : line.qty_input_value
+    const unitsPerCarton = resolveUnitsPerCarton(line.override_units_per_carton, packagingOption)
+    const cbmPerBag = resolveCbmPerBag(packagingOption, unitsPerCarton)
+    const palletSpec = line.pallet_spec_id ? findPalletSpec(data, line.pallet_spec_id) : null
+    const palletLoad = palletSpec ? resolvePalletLoad(palletSpec, unitsPerCarton, unitWeightKg, cbmPerBag) : null
+    const capacity = resolveContainerCapacity(
+      data,
+      product.id,
+      input.container_type,
+      cbmPerBag === null ? null : (cbmPerBag * 1000) / unitWeightKg,
+      warnings,
+      palletLoad,
+    )
+    const bags = (tons * 1000) / unitWeightKg
+    const pallets = palletLoad && unitsPerCarton ? Math.ceil(bags / unitsPerCarton / palletLoad.cartons_per_pallet) : 0
+    const cbm = cbmPerBag === null ? null : cbmPerBag * bags + pallets * safeNonNegative(palletSpec?.pallet_cbm)
+    // 与 calculateQuote 相同的取整口径，用于按包装方案合计袋数。
+    const bagsInt = roundCount(
+      line.qty_input_type === 'bags' ? line.qty_input_value : tons * safeDiv(1000, unitWeightKg, 'bags_per_ton'),
+      rounding.policy,
+    )
+    return { line, product, tons, cbm, bags_int: bagsInt, fill: tons / capacity.max_tons }
+  })
+  const setupBagsByPackaging = new Map<string, number>()
+  planned.forEach((item) => {
+    const key = item.line.packaging_option_id
+    setupBagsByPackaging.set(key, (setupBagsByPackaging.get(key) ?? 0) + item.bags_int)
+  })
+
+  const polPortId = planned[0].product.pol_port_id
+  if (planned.some((item) => item.product.pol_port_id !== polPortId)) {
+    throw new Error('all quote lines must share the same POL port')
+  }
+
+  const totalTons = planned.reduce((acc, item) => acc + item.tons, 0)
+  const totalFill = planned.reduce((acc, item) => acc + item.fill, 0)
+  const totalCbm = planned.some((item) => item.cbm === null)
+    ? null
+    : planned.reduce((acc, item) => acc + (item.cbm ?? 0), 0)
+
+  let mode: Mode = input.mode
+  if (mode === 'FCL' && totalFill < 1) {
+    mode = 'LCL'
+    warnings.push(createQuoteWarning('document_auto_switched_to_lcl', { fill_pct: (totalFill * 100).toFixed(1) }))
+  }
+
+  const containerCount = Math.max(
+    1,
+    Math.ceil(
+      Number.isFinite(input.container_count ?? Number.NaN)
+        ? (input.container_count as number)
+        : totalFill,
+    ),
+  )
+  const fclPortTotalRmb = includeDomesticLegs
+    ? resolveFclPortSingleRmb(data, polPortId, input.container_type, warnings) * containerCount
+    : 0
+  const lclPortCharge =
+    includeDomesticLegs && mode === 'LCL'
+      ? resolveLclPortCharge(data, polPortId, input.container_type, totalTons, totalCbm, warnings)
+      : null
+  const lclPortTotalRmb = lclPortCharge?.total_rmb ?? null
+  if (mode === 'LCL' && lclPortTotalRmb !== null && lclPortTotalRmb > fclPortTotalRmb) {
+    warnings.push(
+      createQuoteWarning('lcl_port_exceeds_fcl', {
+        lcl_port_rmb: lclPortTotalRmb.toFixed(2),
+        fcl_port_rmb: fclPortTotalRmb.toFixed(2),
+      }),
+    )
+  }
+  const oceanFreightUsdTotal = destinationPortId
+    ? resolveOceanFreightUsdTotal(
+        data,
+        polPortId,
+        destinationPortId,
+        mode,
+        input.container_type,
+        containerCount,
+        totalTons,
+        warnings,
+      )
+    : 0
+
+  const lines = planned.map(({ line, tons, fill }) => {
+    const { line_id: lineId, margin_pct: lineMarginPct, ...lineInput } = line
+    const result = calculateQuote({
+      ...lineInput,
+      data,
+      mode,
+      container_type: input.container_type,
+      fx_rate: input.fx_rate,
+      margin_pct: lineMarginPct ?? input.margin_pct,
+      pricing_formula_mode: pricingFormulaMode,
+      fixed_profit_value: input.fixed_profit_value,
+      rounding_policy: input.rounding_policy,
+      price_step: input.price_step,
+      usd_decimals: input.usd_decimals,
+      incoterm,
+      destination_port_id: destinationPortId,
+      insurance_pct: input.insurance_pct,
+      sell_currency: input.sell_currency,
+      commission: input.commission,
+      discount: input.discount,
+      customer_id: input.customer_id,
+      extra_charge_ids: input.extra_charge_ids,
+      land_override_policy: input.land_override_policy,
+      trace: input.trace,
+      shipment: {
+        mode,
+        container_count: containerCount,
+        load_share: mode === 'FCL' ? fill / totalFill : tons / totalTons,
+        fcl_port_total_rmb: fclPortTotalRmb,
+        lcl_port_total_rmb: lclPortTotalRmb,
+        lcl_port_charge: lclPortCharge,
+        ocean_freight_usd_total: oceanFreightUsdTotal,
+        setup_bags_int: setupBagsByPackaging.get(line.packaging_option_id),
+      },
+    })
+    return {
+      line_id: lineId,
+      result,
+      amount_usd: result.summary.amount_usd,
+      amount: result.summary.amount,
+    }
+  })
+
+  return {
+    lines,
+    totals: {
+      mode,
+      incoterm,
+      pricing_formula_mode: pricingFormulaMode,
+      container_type: input.container_type,
+      container_count: containerCount,
+      container_fill: totalFill,
+      tons: totalTons,
+      bags_int: lines.reduce((acc, item) => acc + item.result.summary.bags_int, 0),
+      cartons_int: lines.reduce((acc, item) => acc + item.result.summary.cartons_int, 0),
+      amount_usd: toFixedNumber(
+        lines.reduce((acc, item) => acc + item.amount_usd, 0),
+        lines[0].result.summary.usd_decimals,
+      ),
+      sell_currency: lines[0].result.summary.sell_currency,
+      amount: toFixedNumber(
+        lines.reduce((acc, item) => acc + item.amount, 0),
+        lines[0].result.summary.sell_currency_decimals,
+      ),
+      net_rmb_total: lines.reduce(
+        (acc, item) => acc + item.result.summary.net_rmb_per_bag * item.result.summary.bags_int,
+        0,
+      ),
+      gp_rmb_total: lines.reduce((acc, item) => acc + item.result.summary.gp_rmb_total, 0),
+      ocean_freight_usd_total: oceanFreightUsdTotal,
+    },
+    warnings,
+  }
 }
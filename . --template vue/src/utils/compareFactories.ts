@@ -0,0 +1,74 @@
+import {
+  calculateQuote,
+  createQuoteWarning,
+  type CalculateQuoteInput,
+  type CalculateQuoteResult,
+  type QuoteWarning,
+} from '@/utils/calculateQuote'
+
+export interface FactoryComparisonRow {
+  factory_id: string
+  factory_name: string
+  result: CalculateQuoteResult | null
+  // 按每袋净成本升序、按总毛利降序的名次；无法计算时为 null。
+  rank_by_net: number | null
+  rank_by_gp: number | null
+  // 缺失数据与计算回退提示（不含 info 级别）。
+  issues: QuoteWarning[]
+}
+
+// 以同一产品、包装、数量与柜型对所有维护了该产品成本的工厂报价。
+// 国内运费与包材价格取各工厂自身规则，因此忽略界面上针对当前工厂的运费与包材单价覆盖。
+export function compareFactories(quote: CalculateQuoteInput): FactoryComparisonRow[] {
+  const { data } = quote
+  const {
+    land_fee_override_rmb_per_ton: _landOverride,
+    override_bag_price_rmb: _bagPriceOverride,
+    override_carton_price_rmb: _cartonPriceOverride,
+    ...sharedInput
+  } = quote
+  const factoryIds = Array.from(
+    new Set(
+      data.factory_product_costs
+        .filter((item) => item.product_id === quote.product_id)
+        .map((item) => item.factory_id),
+    ),
+  )
+  if (factoryIds.length === 0) {
+    throw new Error('no factory has a cost for the selected product')
+  }
+
+  const rows = factoryIds.map((factoryId): FactoryComparisonRow => {
+    const factoryName = data.factories.find((item) => item.id === factoryId)?.name ?? factoryId
+    const cost = data.factory_product_costs.find(
+      (item) => item.product_id === quote.product_id && item.factory_id === factoryId,
+    )
+    const base = { factory_id: factoryId, factory_name: factoryName, rank_by_net: null, rank_by_gp: null }
+    if (!cost || !Number.isFinite(Number(cost.cost_rmb_per_ton)) || Number(cost.cost_rmb_per_ton) <= 0) {
+      return { ...base, result: null, issues: [createQuoteWarning('factory_cost_missing', { factory_name: factoryName })] }
+    }
+    try {
+      const result = calculateQuote({ ...sharedInput, factory_id: factoryId })
+      return { ...base, result, issues: result.warnings.filter((warning) => warning.severity !== 'info') }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      return {
+        ...base,
+        result: null,
+        issues: [createQuoteWarning('factory_quote_failed', { factory_name: factoryName, message })],
+      }
+    }
+  })
+
+  const priced = rows.filter((row): row is FactoryComparisonRow & { result: CalculateQuoteResult } => row.result !== null)
+  const byNet = [...priced].sort((a, b) => a.result.summary.net_rmb_per_bag - b.result.summary.net_rmb_per_bag)
+  const byGp = [...priced].sort((a, b) => b.result.summary.gp_rmb_total - a.result.summary.gp_rmb_total)
+  rows.forEach((row) => {
+    if (!row.result) return
+    row.rank_by_net = byNet.indexOf(row as (typeof priced)[number]) + 1
+    row.rank_by_gp = byGp.indexOf(row as (typeof priced)[number]) + 1
+  })
+  return rows.sort(
+    (a, b) => (a.rank_by_net ?? Number.POSITIVE_INFINITY) - (b.rank_by_net ?? Number.POSITIVE_INFINITY),
+  )
+}
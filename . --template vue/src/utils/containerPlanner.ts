@@ -0,0 +1,218 @@
+import type { AppData, ContainerType, LoadBasis, OverflowStrategy } from '@/types/domain'
+import {
+  resolveContainerCapacity,
+  resolveFclPortSingleRmb,
+  resolveLandFreightRate,
+  resolveOceanFreightUsdTotal,
+  type ContainerMixEntry,
+  type PalletLoad,
+  type QuoteWarning,
+} from '@/utils/calculateQuote'
+
+export interface ContainerPlanInput {
+  data: AppData
+  product_id: string
+  // 需求量，单位由 basis 决定（吨或 CBM）。
+  demand: number
+  basis?: LoadBasis
+  // 按 CBM 规划时用于估算国内运费与海运附加费的总吨数；按吨规划时等于 demand。
+  tons?: number
+  // 每吨货物体积；提供时单柜容量同时受重量与体积上限约束。
+  cbm_per_ton?: number | null
+  // 托盘装运时按整托计算单柜容量。
+  pallet?: PalletLoad | null
+  factory_id?: string
+  preferred_type?: ContainerType
+  strategy?: OverflowStrategy
+  destination_port_id?: string | null
+  fx_rate?: number
+  land_fee_override_rmb_per_ton?: number
+}
+
+export interface PlannedContainer {
+  container_type: ContainerType
+  capacity: number
+  load: number
+  utilization: number
+}
+
+export interface ContainerPlan {
+  basis: LoadBasis
+  strategy: OverflowStrategy
+  demand: number
+  // 按单柜容量从大到小排列。
+  mix: ContainerMixEntry[]
+  containers: PlannedContainer[]
+  container_count: number
+  total_capacity: number
+  utilization: number
+  // 港杂 + 国内运费 + 海运费的估算（RMB），仅用于比较不同组合。
+  logistics_cost_rmb: number
+}
+
+interface ContainerTypeCost {
+  container_type: ContainerType
+  capacity: number
+  fixed_rmb: number
+  per_unit_rmb: number
+}
+
+const DEFAULT_CONTAINER_SEQUENCE: ContainerType[] = ['20GP', '40HQ', '40FT']
+const FALLBACK_CAPACITY_CBM: Record<ContainerType, number> = { '20GP': 28, '40HQ': 68, '40FT': 58 }
+const CAPACITY_EPSILON = 1e-9
+
+function resolveCapacity(input: ContainerPlanInput, containerType: ContainerType, basis: LoadBasis, tonsPerUnit: number): number {
+  const capacity = resolveContainerCapacity(
+    input.data,
+    input.product_id,
+    containerType,
+    input.cbm_per_ton ?? null,
+    [],
+    input.pallet ?? null,
+  )
+  if (basis === 'tons') return capacity.max_tons
+  if (capacity.pallets_per_container !== null && tonsPerUnit > 0) return capacity.max_tons / tonsPerUnit
+  const volumeCapacity = capacity.max_cbm ?? FALLBACK_CAPACITY_CBM[containerType]
+  return tonsPerUnit > 0 ? Math.min(volumeCapacity, capacity.weight_max_tons / tonsPerUnit) : volumeCapacity
+}
+
+// 单柜成本拆成固定部分（港杂、海运基础运费、按车次的国内运费）与随装载量线性变化的部分（按吨的国内运费、海运每吨附加）。
+function resolveTypeCost(input: ContainerPlanInput, basis: LoadBasis, containerType: ContainerType): ContainerTypeCost {
+  const { data } = input
+  const ignored: QuoteWarning[] = []
+  const product = data.products.find((item) => item.id === input.product_id)
+  const polPortId = product?.pol_port_id ?? ''
+  const tonsPerUnit = basis === 'tons' ? 1 : input.tons && input.tons > 0 ? input.tons / input.demand : 0
+  const fxRate = input.fx_rate && input.fx_rate > 0 ? input.fx_rate : 0
+  const land = input.factory_id
+    ? resolveLandFreightRate(data, 'FCL', input.factory_id, containerType, input.land_fee_override_rmb_per_ton, ignored)
+    : null
+  const landPerTrip = land?.basis === 'per_trip' ? land.rate_rmb : 0
+  const landPerTon = land?.basis === 'per_ton' ? land.rate_rmb : 0
+  const oceanUsd = (tons: number) =>
+    input.destination_port_id && fxRate > 0
+      ? resolveOceanFreightUsdTotal(data, polPortId, input.destination_port_id, 'FCL', containerType, 1, tons, ignored)
+      : 0
+  const oceanBaseUsd = oceanUsd(0)
+  return {
+    container_type: containerType,
+    capacity: resolveCapacity(input, containerType, basis, tonsPerUnit),
+    fixed_rmb: resolveFclPortSingleRmb(data, polPortId, containerType, ignored) + oceanBaseUsd * fxRate + landPerTrip,
+    per_unit_rmb: (landPerTon + (oceanUsd(1) - oceanBaseUsd) * fxRate) * tonsPerUnit,
+  }
+}
+
+// 装载量优先分配给单位变动成本低的柜型，依次装满。
+function buildPlan(
+  input: ContainerPlanInput,
+  basis: LoadBasis,
+  strategy: OverflowStrategy,
+  counts: Array<{ cost: ContainerTypeCost; count: number }>,
+): ContainerPlan {
+  const used = counts.filter((item) => item.count > 0)
+  const slots = used
+    .flatMap((item) => Array.from({ length: item.count }, () => item.cost))
+    .sort((a, b) => a.per_unit_rmb - b.per_unit_rmb || b.capacity - a.capacity)
+  let remaining = input.demand
+  let cost = 0
+  const containers = slots.map((slot): PlannedContainer => {
+    const load = Math.max(0, Math.min(slot.capacity, remaining))
+    remaining -= load
+    cost += slot.fixed_rmb + slot.per_unit_rmb * load
+    return { container_type: slot.container_type, capacity: slot.capacity, load, utilization: load / slot.capacity }
+  })
+  containers.sort((a, b) => b.capacity - a.capacity || b.load - a.load)
+  const totalCapacity = containers.reduce((acc, item) => acc + item.capacity, 0)
+  return {
+    basis,
+    strategy,
+    demand: input.demand,
+    mix: [...used]
+      .sort((a, b) => b.cost.capacity - a.cost.capacity)
+      .map((item) => ({ container_type: item.cost.container_type, count: item.count })),
+    containers,
+    container_count: containers.length,
+    total_capacity: totalCapacity,
+    utilization: totalCapacity > 0 ? input.demand / totalCapacity : 0,
+    logistics_cost_rmb: cost,
+  }
+}
+
+// 枚举除最大柜型外各柜型的数量，最大柜型补足剩余需求，取估算成本最低的组合。
+function findCheapestMix(
+  input: ContainerPlanInput,
+  basis: LoadBasis,
+  costs: ContainerTypeCost[],
+): ContainerPlan {
+  const byCapacity = [...costs].sort((a, b) => b.capacity - a.capacity)
+  const [largest, ...others] = byCapacity
+  let best: ContainerPlan | null = null
+  const visit = (index: number, counts: number[]) => {
+    if (index === others.length) {
+      const covered = others.reduce((acc, cost, i) => acc + cost.capacity * counts[i], 0)
+      const largestCount = Math.max(0, Math.ceil((input.demand - covered) / largest.capacity - CAPACITY_EPSILON))
+      if (largestCount === 0 && counts.every((count) => count === 0)) return
+      const plan = buildPlan(input, basis, 'best_fit', [
+        { cost: largest, count: largestCount },
+        ...others.map((cost, i) => ({ cost, count: counts[i] })),
+      ])
+      // 出现空柜说明组合有冗余，跳过。
+      if (plan.containers.some((item) => item.load <= CAPACITY_EPSILON)) return
+      if (
+        !best ||
+        plan.logistics_cost_rmb < best.logistics_cost_rmb - CAPACITY_EPSILON ||
+        (Math.abs(plan.logistics_cost_rmb - best.logistics_cost_rmb) <= CAPACITY_EPSILON &&
+          (plan.container_count < best.container_count ||
+            (plan.container_count === best.container_count && plan.total_capacity < best.total_capacity)))
+      ) {
+        best = plan
+      }
+      return
+    }
+    const maxCount = Math.ceil(input.demand / others[index].capacity - CAPACITY_EPSILON)
+    for (let count = 0; count <= maxCount; count += 1) {
+      visit(index + 1, [...counts, count])
+    }
+  }
+  visit(0, [])
+  if (!best) throw new Error('no container combination covers the demand')
+  return best
+}
+
+export function planContainers(input: ContainerPlanInput): ContainerPlan {
+  const { data } = input
+  if (!Number.isFinite(input.demand) || input.demand <= 0) {
+    throw new Error('container plan demand must be > 0')
+  }
+  const basis = input.basis ?? data.settings.load_basis_default ?? 'tons'
+  const strategy = input.strategy ?? data.settings.overflow_strategy ?? 'upgrade_then_split'
+  const sequence = Array.from(
+    new Set(
+      data.settings.container_planning_sequence?.length
+        ? data.settings.container_planning_sequence
+        : DEFAULT_CONTAINER_SEQUENCE,
+    ),
+  )
+  const costs = sequence.map((containerType) => resolveTypeCost(input, basis, containerType))
+  const countFor = (cost: ContainerTypeCost) =>
+    Math.max(1, Math.ceil(input.demand / cost.capacity - CAPACITY_EPSILON))
+
+  if (strategy === 'best_fit') {
+    // 未维护装柜规则的柜型只有兜底容量与费用，不参与组合比价。
+    const configured = costs.filter((cost) =>
+      data.container_load_rules.some(
+        (item) => item.product_id === input.product_id && item.container_type === cost.container_type,
+      ),
+    )
+    return findCheapestMix(input, basis, configured.length > 0 ? configured : costs)
+  }
+
+  if (strategy === 'split_same_type') {
+    const base = costs.find((cost) => cost.container_type === input.preferred_type) ?? costs[0]
+    return buildPlan(input, basis, strategy, [{ cost: base, count: countFor(base) }])
+  }
+
+  const fit = costs.find((cost) => cost.capacity >= input.demand - CAPACITY_EPSILON)
+  const chosen = fit ?? [...costs].sort((a, b) => b.capacity - a.capacity)[0]
+  return buildPlan(input, basis, strategy, [{ cost: chosen, count: countFor(chosen) }])
+}
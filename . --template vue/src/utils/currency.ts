@@ -0,0 +1,22 @@
+// 报价文本与导出共用的币种符号；未列出的币种以代码加空格作前缀。
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  CNY: '¥',
+  USD: '$',
+  EUR: '€',
+  GBP: '£',
+  JPY: 'JP¥',
+}
+
+export function currencySymbol(currency: string): string {
+  return CURRENCY_SYMBOLS[currency] ?? `${currency} `
+}
+
+export function formatCurrency(
+  amount: number,
+  currency: string = 'CNY',
+  decimals = 4,
+): string {
+  const symbol = currencySymbol(currency)
+  const safe = Number.isFinite(amount) ? amount : 0
+  return `${symbol}${safe.toFixed(decimals)}`
+}
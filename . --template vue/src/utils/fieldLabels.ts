@@ -3,7 +3,7 @@
  * 本文件必须使用 UTF-8（无 BOM）保存。
  * 请勿让自动工具“重写整文件”，只允许增量修改键值。
  */
-import type { InnerPackType } from '@/types/domain'
+import type { InnerPackType, PricingFormulaMode, RoundingPolicy } from '@/types/domain'
 
 export const FIELD_LABELS: Record<string, string> = {
   id: 'ID',
@@ -32,6 +32,10 @@ export const FIELD_LABELS: Record<string, string> = {
   base_rmb: '基础费用（RMB）',
   extra_rmb_per_ton: '超吨费用（RMB/吨）',
 
+  destination_port_id: '目的港',
+  base_usd: '基础运费（USD）',
+  extra_usd_per_ton: '每吨运费（USD/吨）',
+
   min_rmb: '最小费用（RMB）',
   max_rmb: '最大费用（RMB）',
   default_rmb: '默认费用（RMB）',
@@ -45,6 +49,8 @@ export const FIELD_LABELS: Record<string, string> = {
   quote_valid_days: '报价有效期（天）',
   pricing_formula_mode: '定价公式模式',
   rounding_policy: '取整规则',
+  price_step: '价格档位（USD）',
+  insurance_pct: 'CIF 保险费率',
   terms_template: '条款模板',
   money_format_rmb_decimals: 'RMB 小数位',
   money_format_usd_decimals: 'USD 小数位',
@@ -65,6 +71,22 @@ export const INNER_PACK_LABELS: Record<InnerPackType, string> = {
   big_box: '大盒彩盒',
 }
 
+export const PRICING_FORMULA_LABELS: Record<PricingFormulaMode, string> = {
+  divide: '毛利率：成本/(1-毛利率)',
+  multiply: '加价率：成本×(1+加价率)',
+  fixed_usd_per_bag: '固定利润（USD/袋）',
+  fixed_usd_per_ton: '固定利润（USD/吨）',
+  fixed_rmb_per_bag: '固定利润（RMB/袋）',
+  fixed_rmb_per_ton: '固定利润（RMB/吨）',
+}
+
+export const ROUNDING_POLICY_LABELS: Record<RoundingPolicy, string> = {
+  ceil: '向上取整',
+  half_up: '四舍五入',
+  floor: '向下取整',
+  step: '按价格档位向上取整',
+}
+
 export function labelFor(key: string, fallback?: string): string {
   return FIELD_LABELS[key] ?? fallback ?? key
 }
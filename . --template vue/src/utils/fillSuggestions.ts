@@ -0,0 +1,116 @@
+import {
+  calculateQuote,
+  createQuoteWarning,
+  type CalculateQuoteInput,
+  type CalculateQuoteResult,
+  type QuoteWarning,
+} from '@/utils/calculateQuote'
+
+export type FillSuggestionKind = 'full_container' | 'whole_carton'
+
+export interface FillSuggestion {
+  kind: FillSuggestionKind
+  bags: number
+  tons: number
+  // 整柜建议的柜数；整箱建议为 null。
+  container_count: number | null
+  cartons: number | null
+  result: CalculateQuoteResult | null
+  issues: QuoteWarning[]
+}
+
+const FILL_EPSILON = 1e-6
+
+function runSuggestion(
+  suggestion: Omit<FillSuggestion, 'result' | 'issues'>,
+  input: CalculateQuoteInput,
+): FillSuggestion {
+  try {
+    const result = calculateQuote(input)
+    return { ...suggestion, result, issues: result.warnings.filter((warning) => warning.severity !== 'info') }
+  } catch (error) {
+    return {
+      ...suggestion,
+      result: null,
+      issues: [
+        createQuoteWarning('fill_suggestion_failed', {
+          bags: suggestion.bags,
+          message: error instanceof Error ? error.message : String(error),
+        }),
+      ],
+    }
+  }
+}
+
+// 单柜满载吨数取所选柜型整柜报价的装载上限；无法计算时不给整柜建议。
+function resolveTonsPerContainer(input: CalculateQuoteInput): number | null {
+  try {
+    return calculateQuote({ ...input, mode: 'FCL', keep_fcl: true, container_count: 1 }).summary.container_max_tons
+  } catch {
+    return null
+  }
+}
+
+// 以当前报价为基准，给出前后最近的整柜数量与整箱数量并分别计价。
+// 整柜数量按整箱向下取整，保证不超过单柜装载上限。
+export function suggestFillQuantities(quote: CalculateQuoteInput, base: CalculateQuoteResult): FillSuggestion[] {
+  const { summary } = base
+  const {
+    container_count: _containerCount,
+    container_mix: _containerMix,
+    shipment: _shipment,
+    qty_input_type: _qtyType,
+    qty_input_value: _qtyValue,
+    keep_fcl: _keepFcl,
+    ...sharedInput
+  } = quote
+  const bagsPerTon = summary.bags_raw / summary.tons
+  const unitsPerCarton = summary.cartons_raw > 0 ? Math.round(summary.bags_int / summary.cartons_raw) : null
+  const bagsToTons = (bags: number) => bags / bagsPerTon
+  const cartonsFor = (bags: number) => (unitsPerCarton ? bags / unitsPerCarton : null)
+
+  const suggestions: FillSuggestion[] = []
+
+  const tonsPerContainer = resolveTonsPerContainer(sharedInput)
+  if (tonsPerContainer !== null && tonsPerContainer > 0) {
+    const fill = summary.tons / tonsPerContainer
+    const counts = Math.abs(fill - Math.round(fill)) < FILL_EPSILON ? [] : [Math.floor(fill), Math.ceil(fill)]
+    counts
+      .filter((count) => count >= 1)
+      .forEach((count) => {
+        const maxBags = Math.floor(count * tonsPerContainer * bagsPerTon + FILL_EPSILON)
+        const bags = unitsPerCarton ? Math.floor(maxBags / unitsPerCarton) * unitsPerCarton : maxBags
+        if (bags < 1) return
+        suggestions.push(
+          runSuggestion(
+            { kind: 'full_container', bags, tons: bagsToTons(bags), container_count: count, cartons: cartonsFor(bags) },
+            { ...sharedInput, mode: 'FCL', keep_fcl: true, container_count: count, qty_input_type: 'bags', qty_input_value: bags },
+          ),
+        )
+      })
+  }
+
+  if (unitsPerCarton && summary.bags_int % unitsPerCarton !== 0) {
+    const lower = Math.floor(summary.bags_int / unitsPerCarton) * unitsPerCarton
+    const upper = lower + unitsPerCarton
+    ;[lower, upper]
+      .filter((bags) => bags >= 1)
+      .forEach((bags) => {
+        suggestions.push(
+          runSuggestion(
+            { kind: 'whole_carton', bags, tons: bagsToTons(bags), container_count: null, cartons: bags / unitsPerCarton },
+            { ...quote, qty_input_type: 'bags', qty_input_value: bags },
+          ),
+        )
+      })
+  }
+
+  const seen = new Set<number>([summary.bags_int])
+  return suggestions
+    .filter((item) => {
+      if (seen.has(item.bags)) return false
+      seen.add(item.bags)
+      return true
+    })
+    .sort((a, b) => a.bags - b.bags)
+}
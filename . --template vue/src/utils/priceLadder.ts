@@ -0,0 +1,102 @@
+import {
+  calculateQuote,
+  createQuoteWarning,
+  type CalculateQuoteInput,
+  type CalculateQuoteResult,
+  type QuoteWarning,
+} from '@/utils/calculateQuote'
+
+// containers 为所选柜型的整柜数，按单柜满载吨数折算数量。
+export type PriceBreakUnit = 'tons' | 'bags' | 'containers'
+
+export interface PriceBreakRow {
+  quantity: number
+  result: CalculateQuoteResult | null
+  issues: QuoteWarning[]
+}
+
+export interface PriceLadderResult {
+  unit: PriceBreakUnit
+  rows: PriceBreakRow[]
+}
+
+const MAX_PRICE_BREAKS = 12
+
+// 支持逗号、空格、分号或换行分隔，结果去重并升序排列。
+export function parsePriceBreaks(text: string, unit: PriceBreakUnit): number[] {
+  const tokens = text.split(/[\s,，;；]+/).filter((token) => token !== '')
+  if (tokens.length === 0) {
+    throw new Error('price ladder requires at least one quantity')
+  }
+  const values = tokens.map((token) => {
+    const value = Number(token)
+    if (!Number.isFinite(value) || value <= 0) {
+      throw new Error(`price break quantity must be > 0: ${token}`)
+    }
+    if (unit === 'containers' && !Number.isInteger(value)) {
+      throw new Error(`container count must be an integer: ${token}`)
+    }
+    return value
+  })
+  const unique = Array.from(new Set(values)).sort((a, b) => a - b)
+  if (unique.length > MAX_PRICE_BREAKS) {
+    throw new Error(`price ladder supports at most ${MAX_PRICE_BREAKS} quantities`)
+  }
+  return unique
+}
+
+function runBreak(quantity: number, input: CalculateQuoteInput): PriceBreakRow {
+  try {
+    const result = calculateQuote(input)
+    return { quantity, result, issues: result.warnings.filter((warning) => warning.severity !== 'info') }
+  } catch (error) {
+    return {
+      quantity,
+      result: null,
+      issues: [
+        createQuoteWarning('price_break_failed', {
+          quantity,
+          message: error instanceof Error ? error.message : String(error),
+        }),
+      ],
+    }
+  }
+}
+
+// 每档独立计算柜数；按吨数或袋数时不足整柜的档位由引擎自动切换为 LCL。
+export function runPriceLadder(quote: CalculateQuoteInput, unit: PriceBreakUnit, quantities: number[]): PriceLadderResult {
+  const {
+    container_count: _containerCount,
+    container_mix: _containerMix,
+    shipment: _shipment,
+    qty_input_type: _qtyType,
+    qty_input_value: _qtyValue,
+    keep_fcl: _keepFcl,
+    ...sharedInput
+  } = quote
+
+  if (unit !== 'containers') {
+    return {
+      unit,
+      rows: quantities.map((quantity) =>
+        runBreak(quantity, { ...sharedInput, mode: 'FCL', qty_input_type: unit, qty_input_value: quantity }),
+      ),
+    }
+  }
+
+  const fullLoad = calculateQuote({ ...sharedInput, mode: 'FCL', keep_fcl: true, container_count: 1 })
+  const tonsPerContainer = fullLoad.summary.container_max_tons
+  return {
+    unit,
+    rows: quantities.map((quantity) =>
+      runBreak(quantity, {
+        ...sharedInput,
+        mode: 'FCL',
+        keep_fcl: true,
+        container_count: quantity,
+        qty_input_type: 'tons',
+        qty_input_value: quantity * tonsPerContainer,
+      }),
+    ),
+  }
+}
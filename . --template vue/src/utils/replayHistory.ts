@@ -0,0 +1,110 @@
+import type { AppData, CalculationHistory } from '@/types/domain'
+import {
+  calculateQuote,
+  calculateQuoteDocument,
+  type CalculateQuoteDocumentInput,
+  type CalculateQuoteInput,
+  type QuoteSummary,
+} from '@/utils/calculateQuote'
+
+export type ReplayField = 'sell_usd_per_bag' | 'gp_rmb_per_bag'
+export type ReplayTolerance = Record<ReplayField, number>
+export type ReplayStatus = 'match' | 'deviation' | 'failed' | 'skipped'
+
+export interface ReplayDiff {
+  field: ReplayField
+  saved: number
+  current: number
+  diff: number
+}
+
+export interface ReplayEntryResult {
+  history_id: string
+  timestamp: string
+  // 报价单按行比对；单条报价为 null。
+  line_id: string | null
+  status: ReplayStatus
+  diffs: ReplayDiff[]
+  message: string | null
+}
+
+export const DEFAULT_REPLAY_TOLERANCE: ReplayTolerance = {
+  sell_usd_per_bag: 0.0001,
+  gp_rmb_per_bag: 0.01,
+}
+
+const REPLAY_FIELDS: ReplayField[] = ['sell_usd_per_bag', 'gp_rmb_per_bag']
+
+interface SavedQuotePayload {
+  quote_input?: Omit<CalculateQuoteInput, 'data'>
+  document_input?: Omit<CalculateQuoteDocumentInput, 'data'>
+  summary?: Partial<QuoteSummary>
+  lines?: Array<{ line_id?: string; summary?: Partial<QuoteSummary> }>
+}
+
+function compareSummary(
+  saved: Partial<QuoteSummary> | undefined,
+  current: QuoteSummary,
+  tolerance: ReplayTolerance,
+): Pick<ReplayEntryResult, 'status' | 'diffs' | 'message'> {
+  const diffs = REPLAY_FIELDS.flatMap((field): ReplayDiff[] => {
+    const savedValue = saved?.[field]
+    if (typeof savedValue !== 'number' || !Number.isFinite(savedValue)) return []
+    return [{ field, saved: savedValue, current: current[field], diff: current[field] - savedValue }]
+  })
+  // 没有可比对的字段时不能算作一致。
+  if (diffs.length === 0) {
+    return { status: 'skipped', diffs: [], message: 'saved summary has no comparable fields' }
+  }
+  const deviated = diffs.filter((item) => Math.abs(item.diff) > tolerance[item.field])
+  return { status: deviated.length > 0 ? 'deviation' : 'match', diffs: deviated, message: null }
+}
+
+function replayEntry(data: AppData, entry: CalculationHistory, tolerance: ReplayTolerance): ReplayEntryResult[] {
+  const saved = (entry.payload as { data?: SavedQuotePayload }).data ?? {}
+  const base = { history_id: entry.id, timestamp: entry.timestamp }
+  // 覆盖范围按当前规则校验可能拦截旧报价，这里只比对数值。
+  try {
+    if (saved.quote_input) {
+      const result = calculateQuote({ ...saved.quote_input, data, land_override_policy: 'warn', trace: false })
+      return [{ ...base, line_id: null, ...compareSummary(saved.summary, result.summary, tolerance) }]
+    }
+    if (saved.document_input) {
+      const result = calculateQuoteDocument({ ...saved.document_input, data, land_override_policy: 'warn', trace: false })
+      const savedLines = new Map((saved.lines ?? []).map((line) => [line.line_id, line.summary]))
+      return result.lines.map((line) => ({
+        ...base,
+        line_id: line.line_id,
+        ...compareSummary(savedLines.get(line.line_id), line.result.summary, tolerance),
+      }))
+    }
+  } catch (error) {
+    return [
+      { ...base, line_id: null, status: 'failed', diffs: [], message: error instanceof Error ? error.message : String(error) },
+    ]
+  }
+  return [{ ...base, line_id: null, status: 'skipped', diffs: [], message: 'saved calculation has no quote input' }]
+}
+
+// 用当前数据与引擎重算历史中每条 kind: 'quote' 记录，报告成交单价与毛利超出容差的偏差。
+// 未标记 kind 的旧版记录没有完整输入，记为 skipped 而不是静默略过。
+export function replayHistory(
+  data: AppData,
+  tolerance: ReplayTolerance = DEFAULT_REPLAY_TOLERANCE,
+): ReplayEntryResult[] {
+  return (data.history ?? []).flatMap((entry): ReplayEntryResult[] => {
+    const kind = (entry.payload as { kind?: string } | null)?.kind
+    if (kind === 'quote') return replayEntry(data, entry, tolerance)
+    if (kind === 'operation_log') return []
+    return [
+      {
+        history_id: entry.id,
+        timestamp: entry.timestamp,
+        line_id: null,
+        status: 'skipped',
+        diffs: [],
+        message: 'legacy history entry without saved quote input',
+      },
+    ]
+  })
+}
@@ -0,0 +1,98 @@
+import {
+  calculateQuote,
+  type CalculateQuoteInput,
+  type CalculateQuoteResult,
+  withFactoryCostPerTon,
+} from '@/utils/calculateQuote'
+
+// factory_cost_pct 为相对当前工厂吨成本的变动比例，如 -0.05 表示下调 5%。
+export type SensitivityAxisKey = 'fx_rate' | 'pricing_value' | 'factory_cost_pct'
+
+export interface SensitivityAxis {
+  key: SensitivityAxisKey
+  values: number[]
+}
+
+export interface SensitivityGridInput {
+  quote: CalculateQuoteInput
+  row_axis: SensitivityAxis
+  col_axis: SensitivityAxis
+}
+
+export interface SensitivityCell {
+  sell_usd_per_bag: number
+  amount_usd: number
+  gp_rmb_total: number
+}
+
+export interface SensitivityGridResult {
+  row_axis: SensitivityAxis
+  col_axis: SensitivityAxis
+  // cells[行][列]；该组合无法计算（如除法毛利率 >= 1）时为 null。
+  cells: Array<Array<SensitivityCell | null>>
+  base: CalculateQuoteResult
+}
+
+const MAX_AXIS_STEPS = 25
+
+export function buildAxisValues(from: number, to: number, steps: number): number[] {
+  if (!Number.isFinite(from) || !Number.isFinite(to)) {
+    throw new Error('sensitivity axis bounds must be finite')
+  }
+  const count = Math.round(steps)
+  if (!Number.isFinite(count) || count < 1 || count > MAX_AXIS_STEPS) {
+    throw new Error(`sensitivity axis steps must be between 1 and ${MAX_AXIS_STEPS}`)
+  }
+  if (count === 1) return [from]
+  const step = (to - from) / (count - 1)
+  return Array.from({ length: count }, (_, index) => Number((from + step * index).toFixed(10)))
+}
+
+function applyAxisValue(
+  quote: CalculateQuoteInput,
+  base: CalculateQuoteResult,
+  key: SensitivityAxisKey,
+  value: number,
+): CalculateQuoteInput {
+  if (key === 'fx_rate') return { ...quote, fx_rate: value }
+  if (key === 'factory_cost_pct') {
+    const costPerTon = base.breakdown.factory_cost_rmb_per_ton * (1 + value)
+    return {
+      ...quote,
+      data: withFactoryCostPerTon(quote.data, quote.product_id, quote.factory_id, costPerTon),
+    }
+  }
+  const mode = base.summary.pricing_formula_mode
+  return mode === 'divide' || mode === 'multiply'
+    ? { ...quote, margin_pct: value }
+    : { ...quote, fixed_profit_value: value }
+}
+
+export function runSensitivityGrid(input: SensitivityGridInput): SensitivityGridResult {
+  const { quote, row_axis: rowAxis, col_axis: colAxis } = input
+  if (rowAxis.key === colAxis.key) {
+    throw new Error('sensitivity row and column axes must differ')
+  }
+  if (rowAxis.values.length === 0 || colAxis.values.length === 0) {
+    throw new Error('sensitivity axes require at least one value')
+  }
+
+  const base = calculateQuote(quote)
+  const cells = rowAxis.values.map((rowValue) => {
+    const rowQuote = applyAxisValue(quote, base, rowAxis.key, rowValue)
+    return colAxis.values.map((colValue): SensitivityCell | null => {
+      try {
+        const { summary } = calculateQuote(applyAxisValue(rowQuote, base, colAxis.key, colValue))
+        return {
+          sell_usd_per_bag: summary.sell_usd_per_bag,
+          amount_usd: summary.amount_usd,
+          gp_rmb_total: summary.gp_rmb_total,
+        }
+      } catch {
+        return null
+      }
+    })
+  })
+
+  return { row_axis: rowAxis, col_axis: colAxis, cells, base }
+}
@@ -0,0 +1,86 @@
+import type { ContainerType, Mode } from '@/types/domain'
+import {
+  calculateQuote,
+  createQuoteWarning,
+  type CalculateQuoteInput,
+  type CalculateQuoteResult,
+  type QuoteWarning,
+} from '@/utils/calculateQuote'
+
+export type ShippingOptionKey = ContainerType | 'LCL'
+
+export interface ShippingOption {
+  key: ShippingOptionKey
+  mode: Mode
+  container_type: ContainerType
+  result: CalculateQuoteResult | null
+  // 实际吨数 / (柜数 × 单柜装载吨数)；LCL 为 null。
+  utilization: number | null
+  issues: QuoteWarning[]
+}
+
+const DEFAULT_CONTAINER_SEQUENCE: ContainerType[] = ['20GP', '40HQ', '40FT']
+
+function runOption(
+  key: ShippingOptionKey,
+  input: CalculateQuoteInput,
+): ShippingOption {
+  try {
+    const result = calculateQuote(input)
+    const { summary } = result
+    return {
+      key,
+      mode: summary.mode,
+      container_type: summary.container_type,
+      result,
+      utilization:
+        summary.mode === 'FCL' ? summary.tons / (summary.container_count * summary.container_max_tons) : null,
+      issues: result.warnings.filter((warning) => warning.severity !== 'info'),
+    }
+  } catch (error) {
+    return {
+      key,
+      mode: input.mode,
+      container_type: input.container_type,
+      result: null,
+      utilization: null,
+      issues: [
+        createQuoteWarning('shipping_option_failed', {
+          option: key,
+          message: error instanceof Error ? error.message : String(error),
+        }),
+      ],
+    }
+  }
+}
+
+// 同一产品与数量在 container_planning_sequence 中各柜型整柜及 LCL 下的报价。
+// 各柜型自行计算柜数；未输入数量时整柜按各柜型满载、LCL 按首个柜型满载吨数计价。
+export function compareShippingOptions(quote: CalculateQuoteInput): ShippingOption[] {
+  const sequence = quote.data.settings.container_planning_sequence?.length
+    ? quote.data.settings.container_planning_sequence
+    : DEFAULT_CONTAINER_SEQUENCE
+  const {
+    container_count: _containerCount,
+    container_mix: _containerMix,
+    shipment: _shipment,
+    ...sharedInput
+  } = quote
+
+  const fclOptions = sequence.map((containerType) =>
+    runOption(containerType, { ...sharedInput, mode: 'FCL', container_type: containerType, keep_fcl: true }),
+  )
+
+  const hasQty = quote.qty_input_value !== undefined && quote.qty_input_value > 0
+  const fallbackTons = fclOptions[0]?.result?.summary.tons
+  const lclInput: CalculateQuoteInput = hasQty
+    ? { ...sharedInput, mode: 'LCL', container_type: sequence[0] }
+    : {
+        ...sharedInput,
+        mode: 'LCL',
+        container_type: sequence[0],
+        qty_input_type: 'tons',
+        qty_input_value: fallbackTons,
+      }
+  return [...fclOptions, runOption('LCL', lclInput)]
+}
@@ -0,0 +1,147 @@
+import {
+  calculateQuote,
+  createQuoteWarning,
+  type CalculateQuoteInput,
+  type CalculateQuoteResult,
+  type QuoteWarning,
+  withFactoryCostPerTon,
+} from '@/utils/calculateQuote'
+
+export type TargetSolveParameter = 'pricing_value' | 'factory_cost_per_ton' | 'land_freight_per_ton'
+
+export interface SolveTargetPriceInput {
+  quote: CalculateQuoteInput
+  target_sell_usd_per_bag: number
+  solve_for: TargetSolveParameter
+}
+
+export interface SolveTargetPriceResult {
+  solve_for: TargetSolveParameter
+  target_sell_usd_per_bag: number
+  feasible: boolean
+  // 满足目标价的最大参数值；不可达时为 null。
+  solved_value: number | null
+  baseline_value: number
+  // 反推 pricing_value 时，表示结果是否不低于输入的毛利底线。
+  meets_margin_floor: boolean
+  result: CalculateQuoteResult
+  warnings: QuoteWarning[]
+}
+
+const MAX_ITERATIONS = 80
+const MAX_EXPANSIONS = 60
+const MIN_FACTORY_COST_PER_TON = 0.01
+const DIVIDE_MARGIN_CAP = 1 - 1e-9
+
+function buildCandidateInput(
+  input: SolveTargetPriceInput,
+  base: CalculateQuoteResult,
+  value: number,
+): CalculateQuoteInput {
+  const { quote } = input
+  if (input.solve_for === 'factory_cost_per_ton') {
+    return { ...quote, data: withFactoryCostPerTon(quote.data, quote.product_id, quote.factory_id, value) }
+  }
+  if (input.solve_for === 'land_freight_per_ton') {
+    // 反推时需试算规则范围外的运费，越界仅记警告。
+    return { ...quote, land_fee_override_rmb_per_ton: value, land_override_policy: 'warn' }
+  }
+  const mode = base.summary.pricing_formula_mode
+  return mode === 'divide' || mode === 'multiply'
+    ? { ...quote, margin_pct: value }
+    : { ...quote, fixed_profit_value: value }
+}
+
+function resolveBaselineValue(input: SolveTargetPriceInput, base: CalculateQuoteResult): number {
+  if (input.solve_for === 'land_freight_per_ton') return base.breakdown.land_rmb_per_ton_used
+  if (input.solve_for === 'pricing_value') return base.summary.pricing_value
+  return base.breakdown.factory_cost_rmb_per_ton
+}
+
+// 其余参数不变，求成交单价不超过目标价时该参数的最大值。
+// 单价随毛利、工厂吨成本、国内运费单调不减，因此对 calculateQuote 做二分。
+export function solveTargetPrice(input: SolveTargetPriceInput): SolveTargetPriceResult {
+  const target = input.target_sell_usd_per_bag
+  if (!Number.isFinite(target) || target <= 0) {
+    throw new Error('target_sell_usd_per_bag must be > 0')
+  }
+
+  const base = calculateQuote(input.quote)
+  if (input.solve_for === 'land_freight_per_ton' && base.summary.incoterm === 'EXW') {
+    throw new Error('land freight is not part of EXW quotes')
+  }
+  const baselineValue = resolveBaselineValue(input, base)
+  const isDivideMargin =
+    input.solve_for === 'pricing_value' && base.summary.pricing_formula_mode === 'divide'
+  const evaluate = (value: number) => calculateQuote(buildCandidateInput(input, base, value))
+  const fits = (result: CalculateQuoteResult) => result.summary.sell_usd_per_bag <= target
+
+  let lo = input.solve_for === 'factory_cost_per_ton' ? MIN_FACTORY_COST_PER_TON : 0
+  const minResult = evaluate(lo)
+  if (!fits(minResult)) {
+    return {
+      solve_for: input.solve_for,
+      target_sell_usd_per_bag: target,
+      feasible: false,
+      solved_value: null,
+      baseline_value: baselineValue,
+      meets_margin_floor: false,
+      result: minResult,
+      warnings: [
+        createQuoteWarning('target_unreachable', {
+          target,
+          min_value: lo,
+          min_sell_usd: minResult.summary.sell_usd_per_bag,
+        }),
+      ],
+    }
+  }
+
+  let hi = isDivideMargin ? DIVIDE_MARGIN_CAP : Math.max(baselineValue, 1)
+  if (isDivideMargin) {
+    if (fits(evaluate(hi))) lo = hi
+  } else {
+    let expansions = 0
+    while (fits(evaluate(hi))) {
+      lo = hi
+      hi *= 2
+      expansions += 1
+      if (expansions > MAX_EXPANSIONS) {
+        throw new Error(`${input.solve_for} does not affect sell_usd_per_bag`)
+      }
+    }
+  }
+
+  for (let i = 0; i < MAX_ITERATIONS && hi - lo > 1e-9 * Math.max(1, hi); i += 1) {
+    const mid = (lo + hi) / 2
+    if (fits(evaluate(mid))) {
+      lo = mid
+    } else {
+      hi = mid
+    }
+  }
+  const solvedResult = evaluate(lo)
+
+  const meetsMarginFloor =
+    input.solve_for === 'pricing_value' ? lo >= base.summary.pricing_value : true
+  const warnings: QuoteWarning[] = []
+  if (input.solve_for === 'pricing_value' && !meetsMarginFloor) {
+    warnings.push(
+      createQuoteWarning('target_below_margin_floor', {
+        solved_value: lo.toFixed(6),
+        floor: base.summary.pricing_value,
+      }),
+    )
+  }
+
+  return {
+    solve_for: input.solve_for,
+    target_sell_usd_per_bag: target,
+    feasible: true,
+    solved_value: lo,
+    baseline_value: baselineValue,
+    meets_margin_floor: meetsMarginFloor,
+    result: solvedResult,
+    warnings,
+  }
+}